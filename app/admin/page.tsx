@@ -0,0 +1,263 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import Link from 'next/link'
+import { motion, AnimatePresence } from 'framer-motion'
+import type { LibraryFile, LibraryStatus, IndexingStatus } from '@/lib/library'
+
+// How often to refresh while files are still being indexed
+const POLL_INTERVAL_MS = 3000
+
+const STATUS_STYLES: Record<IndexingStatus, { label: string; className: string }> = {
+  in_progress: { label: 'Indexing...', className: 'bg-phoenician-sea/60 text-phoenician-sand' },
+  completed: { label: 'Ready', className: 'bg-phoenician-gold/20 text-phoenician-gold' },
+  failed: { label: 'Failed', className: 'bg-phoenician-wine/60 text-phoenician-cream' },
+  cancelled: { label: 'Cancelled', className: 'bg-phoenician-navy text-phoenician-sand/60' },
+}
+
+interface LibraryOption {
+  id: string
+  name: string
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+export default function AdminPage() {
+  const [files, setFiles] = useState<LibraryFile[]>([])
+  const [status, setStatus] = useState<LibraryStatus | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [uploading, setUploading] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [libraries, setLibraries] = useState<LibraryOption[]>([])
+  const [libraryId, setLibraryId] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const libraryQuery = libraryId ? `?libraryId=${encodeURIComponent(libraryId)}` : ''
+
+  useEffect(() => {
+    fetch('/api/libraries')
+      .then(response => response.json())
+      .then(data => {
+        if (!Array.isArray(data.libraries) || data.libraries.length === 0) return
+        setLibraries(data.libraries)
+        setLibraryId(current => current || data.libraries[0].id)
+      })
+      .catch(e => console.error('Failed to load libraries:', e))
+  }, [])
+
+  const loadLibrary = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/library${libraryQuery}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load the library')
+
+      setFiles(data.files)
+      setStatus(data.status)
+      setError(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load the library')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [libraryQuery])
+
+  const selectLibrary = (id: string) => {
+    setLibraryId(id)
+    setFiles([])
+    setStatus(null)
+    setIsLoading(true)
+  }
+
+  useEffect(() => {
+    loadLibrary()
+  }, [loadLibrary])
+
+  // Keep polling until every file has finished indexing
+  const isIndexing = files.some(f => f.status === 'in_progress')
+  useEffect(() => {
+    if (!isIndexing) return
+    const timer = setInterval(loadLibrary, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [isIndexing, loadLibrary])
+
+  const uploadFiles = async (selected: FileList | null) => {
+    if (!selected || selected.length === 0) return
+    const queue = Array.from(selected)
+    setUploading(queue.map(f => f.name))
+    setError(null)
+
+    for (const file of queue) {
+      try {
+        const formData = new FormData()
+        formData.append('file', file)
+        const response = await fetch(`/api/library${libraryQuery}`, { method: 'POST', body: formData })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Upload failed')
+      } catch (e) {
+        setError(`${file.name}: ${e instanceof Error ? e.message : 'Upload failed'}`)
+      } finally {
+        setUploading(prev => prev.filter(name => name !== file.name))
+      }
+    }
+
+    if (fileInputRef.current) fileInputRef.current.value = ''
+    await loadLibrary()
+  }
+
+  const deleteFile = async (file: LibraryFile) => {
+    if (!confirm(`Remove "${file.filename}" from the library?`)) return
+
+    try {
+      const response = await fetch(`/api/library/${encodeURIComponent(file.id)}${libraryQuery}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to delete the file')
+      setFiles(prev => prev.filter(f => f.id !== file.id))
+      await loadLibrary()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to delete the file')
+    }
+  }
+
+  return (
+    <main className="min-h-screen wave-pattern">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <header className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="font-display text-3xl font-bold tracking-wider text-phoenician-cream">
+              <span className="text-phoenician-gold">L</span>IBRARY
+            </h1>
+            <p className="font-body text-lg text-phoenician-sand/80">
+              The books and documents Philo searches
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="px-4 py-2 rounded-xl border border-phoenician-bronze/50 text-phoenician-cream font-body
+                     hover:bg-phoenician-navy/50 transition-colors"
+          >
+            Back to Philo
+          </Link>
+        </header>
+
+        {/* Library picker, shown when more than one library is configured */}
+        {libraries.length > 1 && (
+          <div className="mb-6 flex flex-wrap gap-2">
+            {libraries.map(library => (
+              <button
+                key={library.id}
+                onClick={() => selectLibrary(library.id)}
+                className={`px-4 py-2 rounded-xl border font-body transition-colors ${
+                  library.id === libraryId
+                    ? 'border-phoenician-gold bg-phoenician-gold/20 text-phoenician-gold'
+                    : 'border-phoenician-bronze/50 text-phoenician-cream hover:bg-phoenician-navy/50'
+                }`}
+              >
+                {library.name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Overall status */}
+        {status && (
+          <div className="scroll-paper rounded-2xl p-5 mb-6 gold-border grid grid-cols-2 md:grid-cols-4 gap-4 font-body">
+            <div>
+              <p className="text-sm opacity-70">Files</p>
+              <p className="text-2xl font-semibold">{status.fileCounts.total}</p>
+            </div>
+            <div>
+              <p className="text-sm opacity-70">Ready</p>
+              <p className="text-2xl font-semibold">{status.fileCounts.completed}</p>
+            </div>
+            <div>
+              <p className="text-sm opacity-70">Indexing</p>
+              <p className="text-2xl font-semibold">{status.fileCounts.in_progress}</p>
+            </div>
+            <div>
+              <p className="text-sm opacity-70">Storage</p>
+              <p className="text-2xl font-semibold">{formatBytes(status.bytes)}</p>
+            </div>
+          </div>
+        )}
+
+        {/* Upload */}
+        <div className="mb-6 flex items-center gap-4">
+          <label
+            className="btn-phoenician px-5 py-3 rounded-xl cursor-pointer text-phoenician-cream font-body"
+          >
+            Upload PDFs
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/pdf,.pdf"
+              multiple
+              className="hidden"
+              onChange={(e) => uploadFiles(e.target.files)}
+              disabled={uploading.length > 0}
+            />
+          </label>
+          {uploading.length > 0 && (
+            <p className="font-body text-phoenician-sand/80">
+              ⏳ Uploading {uploading.join(', ')}...
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <p className="mb-6 p-4 rounded-xl bg-phoenician-wine/40 border border-phoenician-wine text-phoenician-cream font-body">
+            {error}
+          </p>
+        )}
+
+        {/* Files */}
+        <div className="rounded-2xl border border-phoenician-bronze/30 bg-phoenician-deep/60 overflow-hidden">
+          {isLoading ? (
+            <p className="p-8 text-center text-phoenician-sand/60 font-body">Loading the library...</p>
+          ) : files.length === 0 ? (
+            <p className="p-8 text-center text-phoenician-sand/60 font-body">
+              The library is empty. Upload a PDF to get started.
+            </p>
+          ) : (
+            <ul className="divide-y divide-phoenician-bronze/20">
+              <AnimatePresence>
+                {files.map(file => (
+                  <motion.li
+                    key={file.id}
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="group flex items-center gap-4 p-4 font-body"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate text-phoenician-cream text-lg">{file.filename}</p>
+                      <p className="text-xs text-phoenician-sand/60">
+                        {formatBytes(file.bytes)} · added {new Date(file.createdAt).toLocaleDateString()}
+                        {file.error && <span className="text-phoenician-terracotta"> · {file.error}</span>}
+                      </p>
+                    </div>
+                    <span className={`px-3 py-1 rounded-full text-xs ${STATUS_STYLES[file.status].className}`}>
+                      {STATUS_STYLES[file.status].label}
+                    </span>
+                    <button
+                      onClick={() => deleteFile(file)}
+                      className="p-2 rounded hover:bg-phoenician-wine/50 transition-colors"
+                      title="Remove from library"
+                    >
+                      <svg className="w-4 h-4 text-phoenician-sand/70" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </motion.li>
+                ))}
+              </AnimatePresence>
+            </ul>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
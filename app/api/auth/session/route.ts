@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdmin } from '@/lib/auth/admins'
+import { getSession } from '@/lib/auth/session'
+
+// Who is signed in, if anyone
+export async function GET(request: NextRequest) {
+  const session = await getSession(request)
+
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    )
+  }
+
+  return NextResponse.json({ user: { id: session.userId, admin: isAdmin(session.userId) } })
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate, getDefaultProvider, isEmail } from '@/lib/auth'
+import { createSessionToken, SESSION_COOKIE, SESSION_MAX_AGE_SECONDS } from '@/lib/auth/session'
+import { checkRateLimit, getClientIp, limitExceeded } from '@/lib/usage/limits'
+
+// Sign in and receive a session cookie
+export async function POST(request: NextRequest) {
+  try {
+    // Nobody is signed in yet, so limit guesses per IP address
+    const limit = checkRateLimit('signin', getClientIp(request))
+    if (limit) return limitExceeded(limit)
+
+    const { email, code } = await request.json()
+
+    if (!isEmail(email)) {
+      return NextResponse.json(
+        { error: 'A valid email address is required' },
+        { status: 400 }
+      )
+    }
+
+    const userId = await authenticate({
+      email,
+      code: typeof code === 'string' ? code : undefined,
+    })
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'That email and access code were not accepted' },
+        { status: 401 }
+      )
+    }
+
+    const response = NextResponse.json({ user: { id: userId } })
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(userId), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: SESSION_MAX_AGE_SECONDS,
+    })
+    return response
+  } catch (error) {
+    console.error('Sign-in Error:', error)
+
+    return NextResponse.json(
+      { error: 'Sign-in is not available right now' },
+      { status: 500 }
+    )
+  }
+}
+
+// Tell the sign-in page whether an access code is needed
+export async function GET() {
+  return NextResponse.json({ requiresCode: getDefaultProvider() !== 'local' })
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server'
+import { SESSION_COOKIE } from '@/lib/auth/session'
+
+// Clear the session cookie
+export async function POST() {
+  const response = NextResponse.json({ signedOut: true })
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
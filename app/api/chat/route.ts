@@ -1,115 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server'
 import OpenAI from 'openai'
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
-
-const VECTOR_STORE_ID = 'vs_67f55053de9c8191a46b2a3a553a011d'
-
-const SYSTEM_PROMPT = `You are Philo, a helpful research assistant with access to a curated library of books (PDFs).
-
-When recommending books:
-1. LEAD with books that are actual files in your library - these are your primary recommendations
-2. Summarize what that book covers and its key insights on the topic
-3. If that book references or recommends other books, feel free to mention those too as secondary recommendations - just be clear they're "referenced in [Book]" or "recommended by the author" so the user knows they're not in your library
-4. If you don't have any books on a topic, say so honestly
-
-Example response pattern:
-"I have [Book A] in my library which covers [topic]. Key insights include... The author also recommends [Book B] for further reading on this, though that one isn't in my collection."
-
-Be conversational, helpful, and generous with insights.`
-
-// Store assistant ID once created (resets on each deployment)
-let assistantId: string | null = null
-
-async function getOrCreateAssistant(): Promise<string> {
-  // Always check env first - this allows using a pre-configured assistant
-  if (process.env.OPENAI_ASSISTANT_ID) {
-    return process.env.OPENAI_ASSISTANT_ID
-  }
-  
-  if (assistantId) return assistantId
-
-  console.log('Creating new assistant with vector store:', VECTOR_STORE_ID)
-
-  // Create a new assistant with file search capabilities
-  // Using gpt-4o for better file search support
-  const assistant = await openai.beta.assistants.create({
-    name: 'Philo',
-    instructions: SYSTEM_PROMPT,
-    model: 'gpt-4o',
-    tools: [{ type: 'file_search' }],
-    tool_resources: {
-      file_search: {
-        vector_store_ids: [VECTOR_STORE_ID],
-      },
-    },
-  })
-
-  assistantId = assistant.id
-  console.log('Created new assistant:', assistantId)
-  
-  // Verify the assistant has the vector store attached
-  const createdAssistant = await openai.beta.assistants.retrieve(assistantId)
-  console.log('Assistant tool_resources:', JSON.stringify(createdAssistant.tool_resources))
-  
-  return assistantId
-}
-
-async function waitForRunCompletion(
-  threadId: string,
-  runId: string,
-  maxAttempts = 60
-): Promise<OpenAI.Beta.Threads.Runs.Run> {
-  let attempts = 0
-  
-  while (attempts < maxAttempts) {
-    const run = await openai.beta.threads.runs.retrieve(threadId, runId)
-    
-    if (run.status === 'completed') {
-      return run
-    }
-    
-    if (run.status === 'failed' || run.status === 'cancelled' || run.status === 'expired') {
-      throw new Error(`Run ${run.status}: ${run.last_error?.message || 'Unknown error'}`)
-    }
-    
-    // Wait before polling again
-    await new Promise(resolve => setTimeout(resolve, 1000))
-    attempts++
+import { getSession } from '@/lib/auth/session'
+import { canContinue, recordOwner } from '@/lib/auth/owners'
+import { ChatHistoryMessage, getChatProvider } from '@/lib/chat'
+import { ChatStreamEvent, ChatUsage, CHAT_STREAM_CONTENT_TYPE, encodeChatEvent } from '@/lib/chat/events'
+import { withRetry } from '@/lib/chat/retry'
+import { isLanguageCode } from '@/lib/language'
+import { getLibrary } from '@/lib/library'
+import { recordUsage } from '@/lib/usage'
+import { checkQuota, checkRateLimit, limitExceeded } from '@/lib/usage/limits'
+
+// Longest history a fork may replay, in messages
+const MAX_HISTORY_MESSAGES = 200
+
+// Roughly how many characters make a token, for estimating what an answer
+// cost when it ends before the provider says
+const CHARS_PER_TOKEN = 4
+
+function estimateUsage(prompt: string, answer: string): ChatUsage {
+  return {
+    inputTokens: Math.ceil(prompt.length / CHARS_PER_TOKEN),
+    outputTokens: Math.ceil(answer.length / CHARS_PER_TOKEN),
   }
-  
-  throw new Error('Run timed out')
 }
 
-// Extract file references from annotations
-async function getFileReferences(annotations: any[]): Promise<string[]> {
-  const fileIds = new Set<string>()
-  
-  for (const annotation of annotations) {
-    if (annotation.type === 'file_citation' && annotation.file_citation?.file_id) {
-      fileIds.add(annotation.file_citation.file_id)
-    }
-  }
-  
-  const fileNames: string[] = []
-  const fileIdArray = Array.from(fileIds)
-  for (let i = 0; i < fileIdArray.length; i++) {
-    try {
-      const file = await openai.files.retrieve(fileIdArray[i])
-      fileNames.push(file.filename)
-    } catch (e) {
-      // File might not be accessible, skip
-    }
-  }
-  
-  return fileNames
+function isHistory(value: unknown): value is ChatHistoryMessage[] {
+  return Array.isArray(value)
+    && value.length <= MAX_HISTORY_MESSAGES
+    && value.every(m => !!m
+      && (m.role === 'user' || m.role === 'assistant')
+      && typeof m.content === 'string')
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const { message, threadId: existingThreadId } = await request.json()
+    const session = await getSession(request)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in to continue' },
+        { status: 401 }
+      )
+    }
+
+    const limit = checkRateLimit('chat', session.userId) || await checkQuota('chat', session.userId)
+    if (limit) return limitExceeded(limit)
+
+    const { message, threadId, history, libraryId, language } = await request.json()
 
     if (!message || typeof message !== 'string') {
       return NextResponse.json(
@@ -118,75 +54,112 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Get or create the assistant
-    const asstId = await getOrCreateAssistant()
+    if (history !== undefined && history !== null && !isHistory(history)) {
+      return NextResponse.json(
+        { error: `History must be a list of at most ${MAX_HISTORY_MESSAGES} user and assistant messages` },
+        { status: 400 }
+      )
+    }
 
-    // Use existing thread or create a new one
-    let threadId = existingThreadId
-    if (!threadId) {
-      const thread = await openai.beta.threads.create()
-      threadId = thread.id
+    if (language !== undefined && language !== null && !isLanguageCode(language)) {
+      return NextResponse.json(
+        { error: `Unsupported language: ${language}` },
+        { status: 400 }
+      )
     }
 
-    // Add the user's message to the thread
-    await openai.beta.threads.messages.create(threadId, {
-      role: 'user',
-      content: message,
-    })
+    const library = getLibrary(typeof libraryId === 'string' ? libraryId : null)
+    if (!library) {
+      return NextResponse.json(
+        { error: `Unknown library: ${libraryId}` },
+        { status: 400 }
+      )
+    }
 
-    // Run the assistant
-    const run = await openai.beta.threads.runs.create(threadId, {
-      assistant_id: asstId,
-    })
+    // Only the user a conversation was issued to may continue it. Answer
+    // as if it doesn't exist, so ids can't be probed.
+    const previousId = typeof threadId === 'string' && threadId ? threadId : null
+    if (previousId && !await canContinue(previousId, session.userId)) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
 
-    // Wait for the run to complete
-    const completedRun = await waitForRunCompletion(threadId, run.id)
-    
-    // Check what tools were used (for debugging)
-    const runSteps = await openai.beta.threads.runs.steps.list(threadId, run.id)
-    const toolsUsed = runSteps.data
-      .filter(step => step.type === 'tool_calls')
-      .flatMap(step => {
-        if (step.step_details.type === 'tool_calls') {
-          return step.step_details.tool_calls.map(tc => tc.type)
+    // Stop the answer when the client goes away: the page's Stop button
+    // aborts its request, and closing the tab drops the connection
+    const abort = new AbortController()
+    request.signal.addEventListener('abort', () => abort.abort(), { once: true })
+
+    // The provider comes from CHAT_PROVIDER (OpenAI, or the offline mock)
+    const events = await withRetry(() => getChatProvider().sendMessage({
+      message,
+      threadId: previousId,
+      history: history || undefined,
+      library,
+      language: language || undefined,
+      signal: abort.signal,
+    }), { signal: abort.signal })
+
+    const encoder = new TextEncoder()
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: ChatStreamEvent) => {
+          // Nobody is listening once the client has gone
+          if (abort.signal.aborted) return
+          controller.enqueue(encoder.encode(encodeChatEvent(event)))
         }
-        return []
-      })
-    console.log('Tools used in this run:', toolsUsed)
 
-    // Get the assistant's response
-    const messages = await openai.beta.threads.messages.list(threadId)
-    
-    // Find the assistant's response (most recent message with role 'assistant')
-    const assistantMessage = messages.data.find(m => m.role === 'assistant')
-    
-    let responseText = 'I could not formulate a response. Please try again.'
-    let sources: string[] = []
-    
-    if (assistantMessage && assistantMessage.content.length > 0) {
-      const textContent = assistantMessage.content.find(c => c.type === 'text')
-      if (textContent && textContent.type === 'text') {
-        responseText = textContent.text.value
-        
-        // Get file references from annotations
-        if (textContent.text.annotations && textContent.text.annotations.length > 0) {
-          sources = await getFileReferences(textContent.text.annotations)
+        // The provider reports usage with the finished answer. An answer cut
+        // short (Stop, a closed tab, an error) still counts, estimated from
+        // the question and the text streamed so far.
+        let usage: ChatUsage | null = null
+        let answer = ''
+        const prompt = [message, ...(history || []).map((m: ChatHistoryMessage) => m.content)].join('\n')
+
+        try {
+          for await (const event of events) {
+            // Record who owns the conversation before its id reaches the client
+            if (event.type === 'thread') {
+              await recordOwner(event.threadId, session.userId)
+            }
+            if (event.type === 'text') answer += event.delta
+            if (event.type === 'citations' && event.text !== undefined) answer = event.text
+            if (event.type === 'done') usage = event.usage || estimateUsage(prompt, answer)
+            send(event)
+          }
+        } catch (error) {
+          if (abort.signal.aborted) {
+            console.log('Chat answer cancelled by the client')
+            return
+          }
+          console.error('Chat stream error:', error)
+          send({
+            type: 'error',
+            error: error instanceof OpenAI.APIError
+              ? `OpenAI API Error: ${error.message}`
+              : 'An unexpected error occurred',
+          })
+        } finally {
+          await recordUsage(session.userId, 'chat', usage || estimateUsage(prompt, answer)).catch(error => {
+            console.error('Failed to record usage:', error)
+          })
+          if (!abort.signal.aborted) controller.close()
         }
-        
-        // Clean up citation markers like 【4:0†source】
-        responseText = responseText.replace(/【\d+:\d+†[^】]*】/g, '')
-      }
-    }
+      },
+      cancel() {
+        abort.abort()
+      },
+    })
 
-    // TTS is now handled client-side for faster response times
-    return NextResponse.json({
-      response: responseText,
-      threadId,
-      sources,
-      debug: {
-        toolsUsed,
-        hasAnnotations: sources.length > 0,
-      }
+    // TTS is handled separately by /api/tts once text arrives
+    return new Response(body, {
+      headers: {
+        'Content-Type': CHAT_STREAM_CONTENT_TYPE,
+        'Cache-Control': 'no-cache, no-transform',
+        'X-Accel-Buffering': 'no',
+      },
     })
   } catch (error) {
     console.error('Chat API Error:', error)
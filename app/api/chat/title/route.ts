@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import OpenAI from 'openai'
+import { getSession } from '@/lib/auth/session'
+import { getChatProvider } from '@/lib/chat'
+import { recordUsage } from '@/lib/usage'
+import { checkQuota, limitExceeded } from '@/lib/usage/limits'
+
+// Longest title kept; models occasionally ignore the word limit
+const MAX_TITLE_LENGTH = 60
+
+// Titles are on unless CHAT_AUTO_TITLE is set to off
+function isEnabled(): boolean {
+  return !['off', 'false', '0'].includes((process.env.CHAT_AUTO_TITLE || '').toLowerCase())
+}
+
+// Drop the quotes, "Title:" prefixes and full stops models like to add
+function cleanTitle(title: string): string {
+  const cleaned = title
+    .trim()
+    .split('\n')[0]
+    .replace(/^title:\s*/i, '')
+    .replace(/^["'“”*]+|["'“”*.]+$/g, '')
+    .trim()
+  return cleaned.length > MAX_TITLE_LENGTH
+    ? cleaned.slice(0, MAX_TITLE_LENGTH - 1).trimEnd() + '…'
+    : cleaned
+}
+
+// Suggest a title for a chat from its first question and answer
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in to continue' },
+        { status: 401 }
+      )
+    }
+
+    if (!isEnabled()) {
+      return NextResponse.json({ title: null })
+    }
+
+    const limit = await checkQuota('chat', session.userId)
+    if (limit) return limitExceeded(limit)
+
+    const { question, answer } = await request.json()
+
+    if (!question || typeof question !== 'string' || !answer || typeof answer !== 'string') {
+      return NextResponse.json(
+        { error: 'A question and answer are required' },
+        { status: 400 }
+      )
+    }
+
+    const { title, usage } = await getChatProvider().generateTitle({ question, answer })
+
+    if (usage) {
+      await recordUsage(session.userId, 'chat', usage).catch(error => {
+        console.error('Failed to record usage:', error)
+      })
+    }
+
+    return NextResponse.json({ title: cleanTitle(title) || null })
+  } catch (error) {
+    console.error('Title API Error:', error)
+
+    if (error instanceof OpenAI.APIError) {
+      return NextResponse.json(
+        { error: `OpenAI API Error: ${error.message}` },
+        { status: error.status || 500 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to generate a title' },
+      { status: 500 }
+    )
+  }
+}
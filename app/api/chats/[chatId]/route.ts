@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth/session'
+import { getChatStore, isChatId, parseChatUpdate } from '@/lib/chats'
+
+interface RouteContext {
+  params: { chatId: string }
+}
+
+function handleError(error: unknown, fallback: string) {
+  console.error('Chats API Error:', error)
+
+  return NextResponse.json(
+    { error: fallback },
+    { status: 500 }
+  )
+}
+
+function notSignedIn() {
+  return NextResponse.json(
+    { error: 'Sign in to continue' },
+    { status: 401 }
+  )
+}
+
+function chatNotFound() {
+  return NextResponse.json(
+    { error: 'Chat not found' },
+    { status: 404 }
+  )
+}
+
+// Get a single chat
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getSession(request)
+    if (!session) return notSignedIn()
+    if (!isChatId(params.chatId)) return chatNotFound()
+
+    const chat = await getChatStore(session.userId).getChat(params.chatId)
+    if (!chat) return chatNotFound()
+
+    return NextResponse.json({ chat })
+  } catch (error) {
+    return handleError(error, 'Failed to load the chat')
+  }
+}
+
+// Create or update a chat. The body's version must match the stored chat
+// (0 for a chat the server hasn't seen), otherwise nothing is written and
+// the current chat is returned with a 409 so the client can reconcile.
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getSession(request)
+    if (!session) return notSignedIn()
+
+    const { chat: body } = await request.json()
+    const chat = parseChatUpdate(body)
+
+    if (typeof chat === 'string') {
+      return NextResponse.json(
+        { error: chat },
+        { status: 400 }
+      )
+    }
+
+    if (chat.id !== params.chatId) {
+      return NextResponse.json(
+        { error: 'Chat id does not match the URL' },
+        { status: 400 }
+      )
+    }
+
+    const result = await getChatStore(session.userId).saveChat(chat)
+
+    if (!result.saved) {
+      return NextResponse.json(
+        { error: 'The chat was changed somewhere else', chat: result.current },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ chat: result.chat })
+  } catch (error) {
+    return handleError(error, 'Failed to save the chat')
+  }
+}
+
+// Delete a chat
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getSession(request)
+    if (!session) return notSignedIn()
+    if (!isChatId(params.chatId)) return chatNotFound()
+
+    const deleted = await getChatStore(session.userId).deleteChat(params.chatId)
+    if (!deleted) return chatNotFound()
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    return handleError(error, 'Failed to delete the chat')
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth/session'
+import { getChatStore, parseChatUpdate } from '@/lib/chats'
+
+function handleError(error: unknown, fallback: string) {
+  console.error('Chats API Error:', error)
+
+  return NextResponse.json(
+    { error: fallback },
+    { status: 500 }
+  )
+}
+
+function notSignedIn() {
+  return NextResponse.json(
+    { error: 'Sign in to continue' },
+    { status: 401 }
+  )
+}
+
+// List the user's saved chats, most recently updated first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return notSignedIn()
+
+    const chats = await getChatStore(session.userId).listChats()
+
+    return NextResponse.json({ chats })
+  } catch (error) {
+    return handleError(error, 'Failed to load chats')
+  }
+}
+
+// Save a new chat
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return notSignedIn()
+
+    const { chat: body } = await request.json()
+    const chat = parseChatUpdate(body ? { ...body, version: 0 } : body)
+
+    if (typeof chat === 'string') {
+      return NextResponse.json(
+        { error: chat },
+        { status: 400 }
+      )
+    }
+
+    const result = await getChatStore(session.userId).saveChat(chat)
+
+    if (!result.saved) {
+      return NextResponse.json(
+        { error: 'A chat with this id already exists', chat: result.current },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ chat: result.chat }, { status: 201 })
+  } catch (error) {
+    return handleError(error, 'Failed to save the chat')
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { getLibraries } from '@/lib/library'
+
+// List the libraries chats can search (vector store ids and prompts stay server-side)
+export async function GET() {
+  try {
+    const libraries = getLibraries().map(({ id, name }) => ({ id, name }))
+
+    return NextResponse.json({ libraries })
+  } catch (error) {
+    console.error('Libraries API Error:', error)
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load libraries' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import OpenAI from 'openai'
+import { isAdmin } from '@/lib/auth/admins'
+import { getSession } from '@/lib/auth/session'
+import { getLibrary, getLibraryStore } from '@/lib/library'
+
+interface RouteContext {
+  params: { fileId: string }
+}
+
+function handleError(error: unknown, fallback: string) {
+  console.error('Library API Error:', error)
+
+  if (error instanceof OpenAI.APIError) {
+    return NextResponse.json(
+      { error: `OpenAI API Error: ${error.message}` },
+      { status: error.status || 500 }
+    )
+  }
+
+  return NextResponse.json(
+    { error: fallback },
+    { status: 500 }
+  )
+}
+
+// Libraries are shared by everyone, so only admins manage them
+async function isAdminRequest(request: NextRequest): Promise<boolean> {
+  const session = await getSession(request)
+  return !!session && isAdmin(session.userId)
+}
+
+function notAnAdmin() {
+  return NextResponse.json(
+    { error: 'Only admins can manage libraries' },
+    { status: 403 }
+  )
+}
+
+function libraryNotFound() {
+  return NextResponse.json(
+    { error: 'Library not found' },
+    { status: 404 }
+  )
+}
+
+// Get a single file, including its indexing status
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!await isAdminRequest(request)) return notAnAdmin()
+
+    const library = getLibrary(request.nextUrl.searchParams.get('libraryId'))
+    if (!library) return libraryNotFound()
+
+    const file = await getLibraryStore(library).getFile(params.fileId)
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ file })
+  } catch (error) {
+    return handleError(error, 'Failed to load the file')
+  }
+}
+
+// Remove a file from a library
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!await isAdminRequest(request)) return notAnAdmin()
+
+    const library = getLibrary(request.nextUrl.searchParams.get('libraryId'))
+    if (!library) return libraryNotFound()
+
+    const deleted = await getLibraryStore(library).deleteFile(params.fileId)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    return handleError(error, 'Failed to delete the file')
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import OpenAI from 'openai'
+import { isAdmin } from '@/lib/auth/admins'
+import { getSession } from '@/lib/auth/session'
+import { getLibrary, getLibraryStore } from '@/lib/library'
+
+// Largest PDF accepted for upload
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024
+
+function handleError(error: unknown, fallback: string) {
+  console.error('Library API Error:', error)
+
+  if (error instanceof OpenAI.APIError) {
+    return NextResponse.json(
+      { error: `OpenAI API Error: ${error.message}` },
+      { status: error.status || 500 }
+    )
+  }
+
+  return NextResponse.json(
+    { error: fallback },
+    { status: 500 }
+  )
+}
+
+// Libraries are shared by everyone, so only admins manage them
+async function isAdminRequest(request: NextRequest): Promise<boolean> {
+  const session = await getSession(request)
+  return !!session && isAdmin(session.userId)
+}
+
+function notAnAdmin() {
+  return NextResponse.json(
+    { error: 'Only admins can manage libraries' },
+    { status: 403 }
+  )
+}
+
+function libraryNotFound() {
+  return NextResponse.json(
+    { error: 'Library not found' },
+    { status: 404 }
+  )
+}
+
+// List the files in a library along with overall indexing status
+export async function GET(request: NextRequest) {
+  try {
+    if (!await isAdminRequest(request)) return notAnAdmin()
+
+    const library = getLibrary(request.nextUrl.searchParams.get('libraryId'))
+    if (!library) return libraryNotFound()
+
+    const store = getLibraryStore(library)
+    const [files, status] = await Promise.all([store.listFiles(), store.getStatus()])
+
+    return NextResponse.json({ files, status })
+  } catch (error) {
+    return handleError(error, 'Failed to load the library')
+  }
+}
+
+// Upload a PDF and add it to a library
+export async function POST(request: NextRequest) {
+  try {
+    if (!await isAdminRequest(request)) return notAnAdmin()
+
+    const library = getLibrary(request.nextUrl.searchParams.get('libraryId'))
+    if (!library) return libraryNotFound()
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'A PDF file is required' },
+        { status: 400 }
+      )
+    }
+
+    const isPdf = file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')
+    if (!isPdf) {
+      return NextResponse.json(
+        { error: 'Only PDF files can be added to the library' },
+        { status: 415 }
+      )
+    }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: `Files must be smaller than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` },
+        { status: 413 }
+      )
+    }
+
+    const uploaded = await getLibraryStore(library).uploadFile(file)
+
+    return NextResponse.json({ file: uploaded }, { status: 201 })
+  } catch (error) {
+    return handleError(error, 'Upload failed')
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth/session'
+import { parseVoicePreferences } from '@/lib/preferences'
+import { getPreferences, saveVoicePreferences } from '@/lib/preferences/store'
+import { getConfiguredProviders, getDefaultProvider, listVoices } from '@/lib/tts'
+
+function handleError(error: unknown, fallback: string) {
+  console.error('Preferences API Error:', error)
+
+  return NextResponse.json(
+    { error: fallback },
+    { status: 500 }
+  )
+}
+
+function notSignedIn() {
+  return NextResponse.json(
+    { error: 'Sign in to continue' },
+    { status: 401 }
+  )
+}
+
+// Get the user's preferences
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return notSignedIn()
+
+    const preferences = await getPreferences(session.userId)
+
+    return NextResponse.json({ preferences })
+  } catch (error) {
+    return handleError(error, 'Failed to load preferences')
+  }
+}
+
+// Save the user's voice preferences
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) return notSignedIn()
+
+    const { voice: body } = await request.json()
+    const voice = parseVoicePreferences(body)
+
+    if (typeof voice === 'string') {
+      return NextResponse.json(
+        { error: voice },
+        { status: 400 }
+      )
+    }
+
+    if (voice.provider && !getConfiguredProviders().includes(voice.provider)) {
+      return NextResponse.json(
+        { error: `TTS provider not available: ${voice.provider}` },
+        { status: 400 }
+      )
+    }
+
+    // Voices and models must come from the provider's catalog
+    if (voice.voice || voice.model) {
+      const catalog = await listVoices(voice.provider ?? getDefaultProvider())
+      if (voice.voice && !catalog.voices.some(option => option.id === voice.voice)) {
+        return NextResponse.json(
+          { error: `Unknown voice: ${voice.voice}` },
+          { status: 400 }
+        )
+      }
+      if (voice.model && !catalog.models.some(option => option.id === voice.model)) {
+        return NextResponse.json(
+          { error: `Unknown model: ${voice.model}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    const preferences = await saveVoicePreferences(session.userId, voice)
+
+    return NextResponse.json({ preferences })
+  } catch (error) {
+    return handleError(error, 'Failed to save preferences')
+  }
+}
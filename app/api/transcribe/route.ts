@@ -1,46 +1,112 @@
 import { NextRequest, NextResponse } from 'next/server'
 import OpenAI from 'openai'
+import { getSession } from '@/lib/auth/session'
+import { isLanguageSetting } from '@/lib/language'
+import { getDefaultProvider, isLivePreviewEnabled, transcribeSpeech, transcribesOnServer } from '@/lib/stt'
+import { TranscribeErrorCode } from '@/lib/stt/errors'
+import { MAX_AUDIO_BYTES, MAX_AUDIO_SECONDS, audioFilename, resolveAudioFormat } from '@/lib/stt/formats'
+import { recordUsage } from '@/lib/usage'
+import { checkQuota, checkRateLimit, limitExceeded } from '@/lib/usage/limits'
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
+// Which STT provider is configured, so the page knows whether to upload
+// recordings or recognize speech itself, and whether to preview it live
+export async function GET(request: NextRequest) {
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Sign in to continue' },
+      { status: 401 }
+    )
+  }
+
+  const provider = getDefaultProvider()
+  return NextResponse.json({ provider, livePreview: isLivePreviewEnabled(provider) })
+}
+
+// A refused transcription, with a code the page can explain (see lib/stt/errors)
+function transcribeError(code: TranscribeErrorCode, error: string, status: number) {
+  return NextResponse.json({ error, code }, { status })
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const formData = await request.formData()
-    const audioFile = formData.get('audio') as File
-    
-    if (!audioFile) {
+    const session = await getSession(request)
+    if (!session) {
       return NextResponse.json(
-        { error: 'Audio file is required' },
-        { status: 400 }
+        { error: 'Sign in to continue' },
+        { status: 401 }
       )
     }
 
-    // Transcribe with Whisper
-    const transcription = await openai.audio.transcriptions.create({
-      file: audioFile,
-      model: 'whisper-1',
-      language: 'en',
-    })
+    // The provider comes from STT_PROVIDER
+    const provider = getDefaultProvider()
+    if (!transcribesOnServer(provider)) {
+      return transcribeError('browser_recognition', 'Speech is recognized in the browser; there is nothing to upload', 400)
+    }
+
+    const limit = checkRateLimit('transcribe', session.userId) || await checkQuota('transcribe', session.userId)
+    if (limit) return limitExceeded(limit)
+
+    const formData = await request.formData()
+    const audioFile = formData.get('audio')
+    const language = formData.get('language') ?? 'auto'
+    // Seconds, as measured by the page (0 when it couldn't tell), so long
+    // recordings are refused before paying for them; the provider's own
+    // measure is checked once it has transcribed
+    const durationField = formData.get('duration')
+    const duration = typeof durationField === 'string' && durationField.trim() ? Number(durationField) : NaN
+
+    if (!(audioFile instanceof File) || audioFile.size === 0) {
+      return transcribeError('missing_audio', 'Audio file is required', 400)
+    }
+
+    const format = resolveAudioFormat(audioFile.type, audioFile.name)
+    if (!format) {
+      return transcribeError('unsupported_format', `Unsupported audio format: ${audioFile.type || audioFile.name}`, 415)
+    }
 
-    return NextResponse.json({
-      text: transcription.text,
+    if (audioFile.size > MAX_AUDIO_BYTES) {
+      return transcribeError('audio_too_large', `Audio is larger than ${MAX_AUDIO_BYTES} bytes`, 413)
+    }
+
+    if (!Number.isFinite(duration) || duration < 0) {
+      return transcribeError('missing_duration', 'The recording\'s duration in seconds is required', 400)
+    }
+
+    if (duration > MAX_AUDIO_SECONDS) {
+      return transcribeError('audio_too_long', `Audio is longer than ${MAX_AUDIO_SECONDS} seconds`, 413)
+    }
+
+    if (!isLanguageSetting(language)) {
+      return transcribeError('unsupported_language', `Unsupported language: ${language}`, 400)
+    }
+
+    // Whisper goes by the filename, which the browser may have got wrong
+    const audio = new File([audioFile], audioFilename(format), { type: format.mimeType })
+
+    // Without a language the provider detects one; the transcript's
+    // language is null when it heard one we don't support
+    const transcript = await transcribeSpeech(audio, provider, {
+      language: language === 'auto' ? undefined : language,
     })
+
+    await recordUsage(session.userId, 'transcribe', {
+      audioSeconds: transcript.duration,
+    }).catch(error => console.error('Failed to record usage:', error))
+
+    if (transcript.duration > MAX_AUDIO_SECONDS) {
+      return transcribeError('audio_too_long', `Audio is longer than ${MAX_AUDIO_SECONDS} seconds`, 413)
+    }
+
+    return NextResponse.json(language === 'auto' ? transcript : { ...transcript, language })
   } catch (error) {
     console.error('Transcription error:', error)
     
     if (error instanceof OpenAI.APIError) {
-      return NextResponse.json(
-        { error: `OpenAI API Error: ${error.message}` },
-        { status: error.status || 500 }
-      )
+      return transcribeError('transcription_failed', `OpenAI API Error: ${error.message}`, error.status || 500)
     }
 
-    return NextResponse.json(
-      { error: 'Transcription failed' },
-      { status: 500 }
-    )
+    return transcribeError('transcription_failed', 'Transcription failed', 500)
   }
 }
 
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdmin } from '@/lib/auth/admins'
+import { getSession } from '@/lib/auth/session'
+import { getSpeechCacheStats } from '@/lib/tts/cache'
+
+// Speech cache hits, misses and size, for admins. Every server instance keeps
+// its own counts and its own view of the cache's size, so on serverless hosts
+// these only describe the instance that answered.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session || !isAdmin(session.userId)) {
+      return NextResponse.json(
+        { error: 'Only admins can see speech cache stats' },
+        { status: 403 }
+      )
+    }
+
+    const stats = await getSpeechCacheStats()
+
+    return NextResponse.json({ stats })
+  } catch (error) {
+    console.error('TTS Cache API Error:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to read speech cache stats' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import OpenAI from 'openai'
+import { getSession } from '@/lib/auth/session'
+import { isLanguageCode } from '@/lib/language'
+import { VoicePreferences, parseVoicePreferences } from '@/lib/preferences'
+import { getPreferences } from '@/lib/preferences/store'
+import { synthesizeSpeech, getConfiguredProviders, getDefaultProvider, isTTSProvider } from '@/lib/tts'
+import { recordUsage } from '@/lib/usage'
+import { checkRateLimit, limitExceeded } from '@/lib/usage/limits'
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in to continue' },
+        { status: 401 }
+      )
+    }
+
+    const limit = checkRateLimit('tts', session.userId)
+    if (limit) return limitExceeded(limit)
+
+    const { text, provider, voice, model, speed, stability, language } = await request.json()
+
+    if (!text || typeof text !== 'string' || !text.trim()) {
+      return NextResponse.json(
+        { error: 'Text is required' },
+        { status: 400 }
+      )
+    }
+
+    // Settings in the request (a preview in the voice settings panel)
+    // override the ones the user saved
+    const requested = parseVoicePreferences({ provider, voice, model, speed, stability })
+    if (typeof requested === 'string') {
+      return NextResponse.json(
+        { error: requested },
+        { status: 400 }
+      )
+    }
+
+    // The deployment picks the provider unless the user has; clients may
+    // only name one the deployment has an API key for
+    const configured = getConfiguredProviders()
+    if (requested.provider && !configured.includes(requested.provider)) {
+      return NextResponse.json(
+        { error: `TTS provider not available: ${requested.provider}` },
+        { status: 400 }
+      )
+    }
+    const { voice: preferences } = await getPreferences(session.userId)
+    // A provider whose API key has since been removed is forgotten, with its voice
+    const saved: VoicePreferences = preferences.provider && !configured.includes(preferences.provider)
+      ? { speed: preferences.speed, stability: preferences.stability }
+      : preferences
+    const selectedProvider = requested.provider ?? saved.provider ?? getDefaultProvider()
+    if (!isTTSProvider(selectedProvider)) {
+      return NextResponse.json(
+        { error: `Unknown TTS provider: ${selectedProvider}` },
+        { status: 400 }
+      )
+    }
+
+    // Saved voices and models belong to the saved provider
+    const settings = selectedProvider === (saved.provider ?? getDefaultProvider())
+      ? { ...saved, ...requested }
+      : { speed: saved.speed, stability: saved.stability, ...requested }
+
+    const audio = await synthesizeSpeech(text, selectedProvider, {
+      voice: settings.voice,
+      model: settings.model,
+      speed: settings.speed,
+      stability: settings.stability,
+      // An unknown language only loses the per-language voice, so don't fail over it
+      language: isLanguageCode(language) ? language : undefined,
+    })
+
+    // Cached speech costs nothing
+    await recordUsage(session.userId, 'tts', {
+      ttsCharacters: audio.cached ? 0 : text.length,
+    }).catch(error => console.error('Failed to record usage:', error))
+
+    // Pipe the provider's audio straight through so playback can start early
+    return new Response(audio.stream, {
+      headers: {
+        'Content-Type': audio.contentType,
+        'Cache-Control': 'no-store',
+        'X-TTS-Cache': audio.cached ? 'hit' : 'miss',
+      },
+    })
+  } catch (error) {
+    console.error('TTS API Error:', error)
+
+    if (error instanceof OpenAI.APIError) {
+      return NextResponse.json(
+        { error: `OpenAI API Error: ${error.message}` },
+        { status: error.status || 500 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Speech synthesis failed' },
+      { status: 500 }
+    )
+  }
+}
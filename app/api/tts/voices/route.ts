@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth/session'
+import { getConfiguredProviders, getDefaultProvider, isTTSProvider, listVoices } from '@/lib/tts'
+
+// The voices and models of one TTS provider (the default unless ?provider=
+// names another), with the providers users may pick from
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in to continue' },
+        { status: 401 }
+      )
+    }
+
+    const providers = getConfiguredProviders()
+    const requested = request.nextUrl.searchParams.get('provider') ?? getDefaultProvider()
+    if (!isTTSProvider(requested) || !providers.includes(requested)) {
+      return NextResponse.json(
+        { error: `TTS provider not available: ${requested}` },
+        { status: 400 }
+      )
+    }
+
+    const catalog = await listVoices(requested)
+
+    return NextResponse.json({
+      providers,
+      defaultProvider: getDefaultProvider(),
+      provider: requested,
+      ...catalog,
+    })
+  } catch (error) {
+    console.error('Voices API Error:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to list voices' },
+      { status: 500 }
+    )
+  }
+}
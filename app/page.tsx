@@ -1,42 +1,281 @@
 'use client'
 
 import { useState, useRef, useEffect, useCallback } from 'react'
+import Link from 'next/link'
 import { motion, AnimatePresence } from 'framer-motion'
+import { StreamingAudioPlayer } from '@/lib/audio/player'
+import { SpeechQueue } from '@/lib/audio/speech'
+import { Transcript, TranscriptSegment, isLowConfidence, segmentTokens, transcriptText } from '@/lib/audio/transcript'
+import { VoiceActivityDetector } from '@/lib/audio/vad'
+import { BrowserRecognizer, isBrowserRecognitionSupported } from '@/lib/stt/browser'
+import type { STTProvider } from '@/lib/stt'
+import type { TTSProvider, TTSVoiceCatalog } from '@/lib/tts'
+import { SPEED_RANGE, STABILITY_RANGE, VoicePreferences } from '@/lib/preferences'
+import { describeTranscribeError, isTranscribeErrorBody } from '@/lib/stt/errors'
+import { ACCEPTED_AUDIO, MAX_AUDIO_BYTES, MAX_AUDIO_SECONDS, pickRecorderMimeType, resolveAudioFormat } from '@/lib/stt/formats'
+import { readChatEvents } from '@/lib/chat/events'
+import { Citation, citedFilenames } from '@/lib/chat/citations'
+import { Block, Inline, parseMarkdown } from '@/lib/markdown'
+import type { ChatNameSource, MessageStatus, StoredChat } from '@/lib/chats'
+import { migrateSavedChats, toSavedChats } from '@/lib/chats/migrations'
+import { Branch, forkChat, siblingsAt, switchBranch } from '@/lib/chats/branches'
+import {
+  ImportedChat,
+  chatToJson,
+  chatToMarkdown,
+  downloadFile,
+  exportFilename,
+  parseChatExport,
+  printChat,
+} from '@/lib/chats/export'
+import { ChatSearchIndex, SearchResult, Snippet } from '@/lib/chats/search'
+import { describeUsageLimit, isUsageLimitBody } from '@/lib/usage/errors'
+import { LANGUAGES, LanguageCode, LanguageSetting, isLanguageCode, isLanguageSetting } from '@/lib/language'
+import {
+  contentHash,
+  deleteServerChat,
+  fetchChats,
+  isDirty,
+  mergeChats,
+  pushChat,
+  resolveConflict,
+} from '@/lib/chats/sync'
 
 interface Message {
   id: string
   role: 'user' | 'assistant'
   content: string
   timestamp: Date
+  // Cited filenames; older saved chats only have this, not citations
   sources?: string[]
+  citations?: Citation[]
   debug?: {
     toolsUsed: string[]
     hasAnnotations: boolean
   }
+  // Set on answers that were stopped or failed part-way
+  status?: MessageStatus
 }
 
 interface Chat {
   id: string
   name: string
+  // Missing while the name is still the default (the first question)
+  nameSource?: ChatNameSource
   threadId: string | null
+  // Library the chat searches; missing on chats saved before libraries existed
+  libraryId?: string
+  pinned: boolean
+  tags: string[]
   messages: Message[]
+  // Paths set aside by editing an earlier question (see lib/chats/branches.ts)
+  branches: Branch<Message>[]
   createdAt: Date
+  // Sync state with /api/chats (see lib/chats/sync.ts)
+  version?: number
+  updatedAt?: string
+  syncedHash?: string
 }
 
-// Simple markdown parser for bold text
-function parseMarkdown(text: string): React.ReactNode[] {
-  const parts = text.split(/(\*\*[^*]+\*\*|\*[^*]+\*)/g)
-  return parts.map((part, index) => {
-    if (part.startsWith('**') && part.endsWith('**')) {
-      return <strong key={index}>{part.slice(2, -2)}</strong>
+interface LibraryOption {
+  id: string
+  name: string
+}
+
+// Render parsed inline Markdown, with [n] markers as clickable footnote references
+function renderInline(nodes: Inline[], onCitationClick: (index: number) => void): React.ReactNode[] {
+  return nodes.map((node, key) => {
+    switch (node.type) {
+      case 'text':
+        return node.text
+      case 'strong':
+        return <strong key={key}>{renderInline(node.children, onCitationClick)}</strong>
+      case 'em':
+        return <em key={key}>{renderInline(node.children, onCitationClick)}</em>
+      case 'del':
+        return <del key={key}>{renderInline(node.children, onCitationClick)}</del>
+      case 'code':
+        return <code key={key}>{node.text}</code>
+      case 'link':
+        return (
+          <a key={key} href={node.href} target="_blank" rel="noopener noreferrer nofollow">
+            {renderInline(node.children, onCitationClick)}
+          </a>
+        )
+      case 'footnote':
+        return (
+          <sup key={key}>
+            <button
+              type="button"
+              onClick={() => onCitationClick(node.index)}
+              className="px-0.5 text-phoenician-gold hover:text-phoenician-cream font-semibold transition-colors"
+              title="Show source"
+            >
+              [{node.index}]
+            </button>
+          </sup>
+        )
+      case 'break':
+        return <br key={key} />
     }
-    if (part.startsWith('*') && part.endsWith('*')) {
-      return <em key={index}>{part.slice(1, -1)}</em>
+  })
+}
+
+// Render parsed Markdown blocks; paragraphs in tight list items render inline
+function renderBlocks(
+  blocks: Block[],
+  onCitationClick: (index: number) => void,
+  tight = false
+): React.ReactNode[] {
+  return blocks.map((block, key) => {
+    switch (block.type) {
+      case 'paragraph':
+        return tight
+          ? <span key={key} className="block">{renderInline(block.children, onCitationClick)}</span>
+          : <p key={key}>{renderInline(block.children, onCitationClick)}</p>
+      case 'heading': {
+        const Heading = `h${block.level}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6'
+        return <Heading key={key}>{renderInline(block.children, onCitationClick)}</Heading>
+      }
+      case 'list': {
+        const items = block.items.map((item, index) => (
+          <li key={index}>{renderBlocks(item, onCitationClick, !block.loose)}</li>
+        ))
+        return block.ordered
+          ? <ol key={key} start={block.start}>{items}</ol>
+          : <ul key={key}>{items}</ul>
+      }
+      case 'blockquote':
+        return <blockquote key={key}>{renderBlocks(block.children, onCitationClick)}</blockquote>
+      case 'code':
+        return <pre key={key}><code>{block.text}</code></pre>
+      case 'table':
+        return (
+          <div key={key} className="overflow-x-auto">
+            <table>
+              <thead>
+                <tr>
+                  {block.header.map((cell, column) => (
+                    <th key={column} style={{ textAlign: block.align[column] || undefined }}>
+                      {renderInline(cell, onCitationClick)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, index) => (
+                  <tr key={index}>
+                    {row.map((cell, column) => (
+                      <td key={column} style={{ textAlign: block.align[column] || undefined }}>
+                        {renderInline(cell, onCitationClick)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      case 'rule':
+        return <hr key={key} />
     }
-    return part
   })
 }
 
+// Parsed answers, by their text and cited indexes, so every render (one per
+// streamed delta) only parses the answers that changed
+const parsedAnswers = new Map<string, Block[]>()
+const MAX_PARSED_ANSWERS = 200
+
+// Render an answer as Markdown, with its citation markers as footnote references
+function renderAnswer(
+  text: string,
+  citations: Citation[] | undefined,
+  onCitationClick: (index: number) => void
+): React.ReactNode[] {
+  const cited = citations?.map(c => c.index) ?? []
+  const key = `${cited.join(',')}\n${text}`
+  let blocks = parsedAnswers.get(key)
+  if (!blocks) {
+    blocks = parseMarkdown(text, { isFootnote: index => cited.includes(index) })
+    // Oldest first, which during a stream are its earlier drafts
+    if (parsedAnswers.size >= MAX_PARSED_ANSWERS) parsedAnswers.delete(parsedAnswers.keys().next().value!)
+    parsedAnswers.set(key, blocks)
+  }
+  return renderBlocks(blocks, onCitationClick)
+}
+
+// Search result text with the matching terms marked
+const Highlighted = ({ snippet }: { snippet: Snippet }) => {
+  const parts: React.ReactNode[] = []
+  let last = 0
+  snippet.highlights.forEach(([start, end], i) => {
+    parts.push(snippet.text.slice(last, start))
+    parts.push(
+      <mark key={i} className="bg-phoenician-gold/30 text-phoenician-cream rounded-sm px-0.5">
+        {snippet.text.slice(start, end)}
+      </mark>
+    )
+    last = end
+  })
+  parts.push(snippet.text.slice(last))
+  return <>{parts}</>
+}
+
+// Numbered footnotes that expand to show the cited passage
+const CitationList = ({
+  messageId,
+  citations,
+  expanded,
+  onToggle,
+}: {
+  messageId: string
+  citations: Citation[]
+  expanded: number | null
+  onToggle: (index: number) => void
+}) => (
+  <ol className="space-y-1">
+    {citations.map(citation => (
+      <li key={citation.index} id={`citation-${messageId}-${citation.index}`}>
+        <button
+          type="button"
+          onClick={() => onToggle(citation.index)}
+          className="w-full text-left text-xs text-phoenician-gold/80 hover:text-phoenician-gold font-body flex gap-2"
+        >
+          <span className="font-semibold">[{citation.index}]</span>
+          <span className="flex-1 truncate">{citation.filename}</span>
+          <span>{expanded === citation.index ? '▾' : '▸'}</span>
+        </button>
+        <AnimatePresence>
+          {expanded === citation.index && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="overflow-hidden"
+            >
+              <div className="mt-2 mb-3 ml-6 space-y-2 text-sm font-body">
+                {citation.claim && (
+                  <p className="text-phoenician-sand/70">
+                    Supports: <em>&ldquo;{citation.claim}&rdquo;</em>
+                  </p>
+                )}
+                {citation.quote ? (
+                  <blockquote className="pl-3 border-l-2 border-phoenician-gold/50 text-phoenician-cream/90 italic">
+                    {citation.quote}
+                  </blockquote>
+                ) : (
+                  <p className="text-phoenician-sand/50">No passage was returned for this citation.</p>
+                )}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </li>
+    ))}
+  </ol>
+)
+
 // Phoenician-inspired ship SVG component
 const PhoenicianShip = ({ className = '' }: { className?: string }) => (
   <svg viewBox="0 0 120 60" className={className} fill="currentColor">
@@ -89,24 +328,390 @@ const MicrophoneIcon = ({ isRecording }: { isRecording: boolean }) => (
   </svg>
 )
 
+// Waveform icon for hands-free conversation mode
+const WaveformIcon = ({ isActive }: { isActive: boolean }) => (
+  <svg viewBox="0 0 24 24" className="w-7 h-7" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round">
+    {[4, 8, 12, 16, 20].map((x, i) => (
+      <motion.line
+        key={x}
+        x1={x} x2={x} y1={9} y2={15}
+        animate={isActive ? { y1: [9, 4 + i % 3, 9], y2: [15, 20 - i % 3, 15] } : {}}
+        transition={{ duration: 1.2, repeat: Infinity, delay: i * 0.15 }}
+      />
+    ))}
+  </svg>
+)
+
+// Spoken by the Preview button in the voice settings
+const VOICE_PREVIEW_TEXT = 'Hello, I\'m Philo. Ask me anything about the books in your library.'
+
+interface VoiceCatalogResponse extends TTSVoiceCatalog {
+  providers: TTSProvider[]
+  defaultProvider: TTSProvider
+  provider: TTSProvider
+}
+
+// Pick how Philo speaks: provider, voice, model, speed and stability, with
+// a preview of the choice before it is saved
+const VoiceSettingsPanel = ({
+  saved,
+  onSave,
+  onClose,
+}: {
+  saved: VoicePreferences
+  onSave: (preferences: VoicePreferences) => Promise<void>
+  onClose: () => void
+}) => {
+  const [draft, setDraft] = useState<VoicePreferences>(saved)
+  const [catalog, setCatalog] = useState<VoiceCatalogResponse | null>(null)
+  const [status, setStatus] = useState<'idle' | 'previewing' | 'saving'>('idle')
+  const [error, setError] = useState<string | null>(null)
+  const previewRef = useRef<HTMLAudioElement | null>(null)
+
+  // Each provider has its own voices and models
+  const provider = draft.provider
+  useEffect(() => {
+    let cancelled = false
+    setError(null)
+    fetch(`/api/tts/voices${provider ? `?provider=${provider}` : ''}`)
+      .then(async response => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to list voices')
+        if (!cancelled) setCatalog(data)
+      })
+      .catch(e => {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e))
+      })
+    return () => { cancelled = true }
+  }, [provider])
+
+  // Stop a preview when the panel closes
+  useEffect(() => () => previewRef.current?.pause(), [])
+
+  const update = (change: Partial<VoicePreferences>) => setDraft(prev => ({ ...prev, ...change }))
+
+  const preview = async () => {
+    setStatus('previewing')
+    setError(null)
+    try {
+      const response = await fetch('/api/tts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...draft, provider: catalog?.provider, text: VOICE_PREVIEW_TEXT }),
+      })
+      if (!response.ok) throw new Error('Failed to preview the voice')
+      const url = URL.createObjectURL(await response.blob())
+      previewRef.current?.pause()
+      const audio = new Audio(url)
+      previewRef.current = audio
+      audio.onended = () => URL.revokeObjectURL(url)
+      await audio.play()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setStatus('idle')
+    }
+  }
+
+  const save = async () => {
+    setStatus('saving')
+    setError(null)
+    try {
+      await onSave(draft)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+      setStatus('idle')
+    }
+  }
+
+  const fieldClass = 'w-full px-3 py-1 rounded-lg bg-phoenician-deep/80 border border-phoenician-bronze/50 ' +
+    'text-phoenician-cream font-body focus:outline-none focus:border-phoenician-gold'
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      className="overflow-hidden"
+    >
+      <div className="mt-3 p-4 rounded-xl bg-phoenician-navy/80 border border-phoenician-bronze/50 font-body text-sm
+                    text-phoenician-sand grid gap-3 sm:grid-cols-2">
+        <label className="grid gap-1">
+          Provider
+          <select
+            value={catalog?.provider ?? ''}
+            onChange={(e) => setDraft({ provider: e.target.value as TTSProvider, speed: draft.speed, stability: draft.stability })}
+            disabled={!catalog}
+            className={fieldClass}
+          >
+            {catalog?.providers.map(option => (
+              <option key={option} value={option}>
+                {option === 'openai' ? 'OpenAI' : 'ElevenLabs'}{option === catalog.defaultProvider ? ' (default)' : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="grid gap-1">
+          Voice
+          <select
+            value={draft.voice ?? catalog?.defaultVoice ?? ''}
+            onChange={(e) => update({ voice: e.target.value })}
+            disabled={!catalog}
+            className={fieldClass}
+          >
+            {catalog?.voices.map(voice => (
+              <option key={voice.id} value={voice.id}>
+                {voice.name}{voice.description ? ` · ${voice.description}` : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="grid gap-1">
+          Model
+          <select
+            value={draft.model ?? catalog?.defaultModel ?? ''}
+            onChange={(e) => update({ model: e.target.value })}
+            disabled={!catalog}
+            className={fieldClass}
+          >
+            {catalog?.models.map(model => (
+              <option key={model.id} value={model.id}>{model.name}</option>
+            ))}
+          </select>
+        </label>
+
+        {catalog?.controls.includes('speed') && (
+          <label className="grid gap-1">
+            Speed: {(draft.speed ?? 1).toFixed(2)}×
+            <input
+              type="range"
+              min={SPEED_RANGE.min}
+              max={SPEED_RANGE.max}
+              step={0.05}
+              value={draft.speed ?? 1}
+              onChange={(e) => update({ speed: Number(e.target.value) })}
+              className="accent-phoenician-gold"
+            />
+          </label>
+        )}
+
+        {catalog?.controls.includes('stability') && (
+          <label className="grid gap-1">
+            Stability: {(draft.stability ?? 0.5).toFixed(2)}
+            <input
+              type="range"
+              min={STABILITY_RANGE.min}
+              max={STABILITY_RANGE.max}
+              step={0.05}
+              value={draft.stability ?? 0.5}
+              onChange={(e) => update({ stability: Number(e.target.value) })}
+              className="accent-phoenician-gold"
+            />
+          </label>
+        )}
+
+        {error && <p className="sm:col-span-2 text-phoenician-terracotta">{error}</p>}
+
+        <div className="sm:col-span-2 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={preview}
+            disabled={!catalog || status !== 'idle'}
+            className="px-3 py-1 rounded-lg border border-phoenician-bronze/50 hover:border-phoenician-gold
+                     hover:text-phoenician-cream transition-colors disabled:opacity-50"
+          >
+            {status === 'previewing' ? 'Loading…' : '▶ Preview'}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-3 py-1 rounded-lg border border-phoenician-bronze/50 hover:border-phoenician-gold
+                     hover:text-phoenician-cream transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={save}
+            disabled={!catalog || status !== 'idle'}
+            className="px-3 py-1 rounded-lg btn-phoenician text-phoenician-cream disabled:opacity-50"
+          >
+            {status === 'saving' ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  )
+}
+
+// Hands-free mode: speech must be louder while Philo is talking so its own
+// voice leaking into the microphone doesn't count as the user barging in
+const VAD_MIN_LEVEL = 0.015
+const VAD_BARGE_IN_LEVEL = 0.05
+
+interface Conversation {
+  stream: MediaStream
+  vad: VoiceActivityDetector
+  // Records the current question, or recognizes it with STT_PROVIDER=browser
+  recorder: MediaRecorder | null
+  recognizer: BrowserRecognizer | null
+  // Shows the question as it is recorded (see startPreview)
+  preview: BrowserRecognizer | null
+}
+
+// A recording's transcript, waiting to be checked before it is sent
+interface TranscriptReview {
+  segments: TranscriptSegment[]
+  // Corrected segment text, by segment index
+  edits: Record<number, string>
+  // Object URL of the recording, for playing segments back; null when the
+  // browser recognized the speech and there is no recording
+  audioUrl: string | null
+}
+
 // Storage keys
 const STORAGE_KEY = 'philo-chats'
 
-// Load chats from localStorage
-function loadChats(): Chat[] {
+// Chats are kept per user, so whoever signs in next on this browser doesn't
+// get them merged into their own
+function chatsKey(userId: string): string {
+  return `${STORAGE_KEY}:${userId}`
+}
+
+// Record in a format /api/transcribe accepts: WebM where the browser can,
+// MP4 on Safari
+function createRecorder(stream: MediaStream): MediaRecorder {
+  const mimeType = pickRecorderMimeType()
+  if (!mimeType) {
+    throw new Error('This browser can\'t record audio in a format Philo can transcribe.')
+  }
+  return new MediaRecorder(stream, { mimeType })
+}
+
+// How long an audio file plays, in seconds; 0 when the browser can't tell
+function audioDuration(file: Blob): Promise<number> {
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(file)
+    const audio = new Audio()
+    const done = (seconds: number) => {
+      URL.revokeObjectURL(url)
+      resolve(Number.isFinite(seconds) ? seconds : 0)
+    }
+    audio.preload = 'metadata'
+    audio.onloadedmetadata = () => done(audio.duration)
+    audio.onerror = () => done(0)
+    audio.src = url
+  })
+}
+
+// Synthesize one sentence through the server-side TTS provider, which
+// picks a voice for the language when it is known
+async function requestSpeech(text: string, language: LanguageCode | null): Promise<ReadableStream<Uint8Array> | null> {
+  const response = await fetch('/api/tts', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text, language }),
+  })
+
+  if (!response.ok) {
+    throw new Error('Speech synthesis failed')
+  }
+
+  return response.body
+}
+
+// Ask the server to name a chat after its first exchange
+async function requestTitle(question: string, answer: string): Promise<string | null> {
+  try {
+    const response = await fetch('/api/chat/title', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ question, answer }),
+    })
+    if (!response.ok) return null
+    const data = await response.json()
+    return typeof data.title === 'string' && data.title ? data.title : null
+  } catch (e) {
+    return null
+  }
+}
+
+// Wait after the last change before uploading chats to the server
+const SYNC_DELAY_MS = 1500
+
+type ChatSort = 'recent' | 'created' | 'name'
+
+const SORT_KEY = 'philo-chat-sort'
+const LANGUAGE_KEY = 'philo-language'
+
+function isChatSort(value: unknown): value is ChatSort {
+  return value === 'recent' || value === 'created' || value === 'name'
+}
+
+// When a chat was last used: its latest message, or when it was started
+function lastActivity(chat: Chat): number {
+  const last = chat.messages[chat.messages.length - 1]
+  return (last ? last.timestamp : chat.createdAt).getTime()
+}
+
+// Pinned chats first, then in the chosen order
+function sortChats(chats: Chat[], sort: ChatSort): Chat[] {
+  const compare: Record<ChatSort, (a: Chat, b: Chat) => number> = {
+    recent: (a, b) => lastActivity(b) - lastActivity(a),
+    created: (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+    name: (a, b) => a.name.localeCompare(b.name),
+  }
+  return [...chats].sort((a, b) => Number(b.pinned) - Number(a.pinned) || compare[sort](a, b))
+}
+
+// Tags typed as a comma-separated list, without blanks or repeats
+function parseTags(text: string): string[] {
+  const tags = text.split(',').map(tag => tag.trim().slice(0, 32)).filter(Boolean)
+  return Array.from(new Set(tags))
+}
+
+// Where sendMessage puts a question: at the end of the chat by default.
+// forkAt replaces the question at that index on a new branch; retryAt
+// replaces the question there along with an answer that didn't finish.
+interface SendOptions {
+  forkAt?: number
+  retryAt?: number
+}
+
+// A chat's default name: the start of its first question
+function defaultName(text: string): string {
+  return text.slice(0, 30) + (text.length > 30 ? '...' : '')
+}
+
+// Turn a chat parsed from JSON (localStorage, the server or an export) back into a Chat
+function reviveChat(chat: StoredChat | ImportedChat): Chat {
+  const reviveMessages = (messages: StoredChat['messages']): Message[] => messages.map(m => ({
+    ...m,
+    timestamp: new Date(m.timestamp)
+  }))
+  return {
+    ...chat,
+    pinned: chat.pinned === true,
+    tags: chat.tags || [],
+    createdAt: new Date(chat.createdAt),
+    messages: reviveMessages(chat.messages),
+    branches: (chat.branches || []).map(branch => ({
+      threadId: branch.threadId,
+      messages: reviveMessages(branch.messages),
+    })),
+  }
+}
+
+// Load a user's chats from localStorage, upgrading them from older saved versions
+function loadChats(userId: string): Chat[] {
   if (typeof window === 'undefined') return []
   try {
-    const stored = localStorage.getItem(STORAGE_KEY)
+    const stored = localStorage.getItem(chatsKey(userId))
     if (stored) {
-      const chats = JSON.parse(stored)
-      return chats.map((chat: any) => ({
-        ...chat,
-        createdAt: new Date(chat.createdAt),
-        messages: chat.messages.map((m: any) => ({
-          ...m,
-          timestamp: new Date(m.timestamp)
-        }))
-      }))
+      const chats = migrateSavedChats(JSON.parse(stored)) as unknown as StoredChat[]
+      return chats.map(reviveChat)
     }
   } catch (e) {
     console.error('Failed to load chats:', e)
@@ -114,11 +719,41 @@ function loadChats(): Chat[] {
   return []
 }
 
-// Save chats to localStorage
-function saveChats(chats: Chat[]) {
+// Chats saved before they were kept per user may belong to anyone who used
+// this browser, so they are only added to a user's chats if they say so. If
+// they don't, the chats stay where they are and that user isn't asked again.
+function claimUnscopedChats(userId: string, chats: Chat[]): Chat[] {
+  const declinedKey = `${STORAGE_KEY}:declined:${userId}`
+  try {
+    const unclaimed = localStorage.getItem(STORAGE_KEY)
+    if (unclaimed === null || localStorage.getItem(declinedKey) !== null) return chats
+    const found = (migrateSavedChats(JSON.parse(unclaimed)) as unknown as StoredChat[]).map(reviveChat)
+    const known = new Set(chats.map(chat => chat.id))
+    const added = found.filter(chat => !known.has(chat.id))
+    if (added.length === 0) {
+      localStorage.removeItem(STORAGE_KEY)
+      return chats
+    }
+    const count = added.length === 1 ? '1 chat' : `${added.length} chats`
+    if (!window.confirm(`This browser has ${count} saved before signing in was required. Add them to your chats? Choose Cancel if they are someone else's.`)) {
+      localStorage.setItem(declinedKey, '1')
+      return chats
+    }
+    const merged = [...chats, ...added]
+    saveChats(userId, merged)
+    localStorage.removeItem(STORAGE_KEY)
+    return merged
+  } catch (e) {
+    console.error('Failed to load chats saved before sign-in:', e)
+    return chats
+  }
+}
+
+// Save a user's chats to localStorage
+function saveChats(userId: string, chats: Chat[]) {
   if (typeof window === 'undefined') return
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(chats))
+    localStorage.setItem(chatsKey(userId), JSON.stringify(toSavedChats(chats)))
   } catch (e) {
     console.error('Failed to save chats:', e)
   }
@@ -134,111 +769,697 @@ export default function Home() {
   const [showSidebar, setShowSidebar] = useState(false)
   const [voiceEnabled, setVoiceEnabled] = useState(true)
   const [isTranscribing, setIsTranscribing] = useState(false)
+  const [review, setReview] = useState<TranscriptReview | null>(null)
+  // What the browser has heard so far while the user talks; the transcript
+  // replaces it when they stop
+  const [interimText, setInterimText] = useState('')
+  // The segment being corrected, and the one playing back
+  const [editingSegment, setEditingSegment] = useState<number | null>(null)
+  const [playingSegment, setPlayingSegment] = useState<number | null>(null)
+  const [activity, setActivity] = useState<string | null>(null)
+  const [conversationMode, setConversationMode] = useState(false)
+  const [expandedCitation, setExpandedCitation] = useState<{ messageId: string; index: number } | null>(null)
+  const [libraries, setLibraries] = useState<LibraryOption[]>([])
+  const [selectedLibraryId, setSelectedLibraryId] = useState<string | null>(null)
+  const [userId, setUserId] = useState<string | null>(null)
+  // Admins may manage the libraries (PHILO_ADMIN_EMAILS)
+  const [isAdmin, setIsAdmin] = useState(false)
+  // Explains a refused request (rate limits, daily quotas) or a failed import above the input
+  const [notice, setNotice] = useState<string | null>(null)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([])
+  // Message a search result jumped to, outlined for a moment
+  const [jumpTarget, setJumpTarget] = useState<string | null>(null)
+  const [sortOrder, setSortOrder] = useState<ChatSort>('recent')
+  // Only chats with this tag are listed (tags act as folders)
+  const [tagFilter, setTagFilter] = useState<string | null>(null)
+  // The language to listen and answer in, or 'auto' to follow the user's
+  const [language, setLanguage] = useState<LanguageSetting>('auto')
+  // How Philo speaks, saved on the server for this user (see lib/preferences)
+  const [voicePreferences, setVoicePreferences] = useState<VoicePreferences>({})
+  const [showVoiceSettings, setShowVoiceSettings] = useState(false)
+  // The chat being renamed/tagged in the sidebar, with the values typed so far
+  const [editing, setEditing] = useState<{ chatId: string; name: string; tags: string } | null>(null)
+  // The earlier question being edited, with its text so far
+  const [editingMessage, setEditingMessage] = useState<{ id: string; text: string } | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const reviewAudioRef = useRef<HTMLAudioElement>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const memoInputRef = useRef<HTMLInputElement>(null)
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
+  const recognizerRef = useRef<BrowserRecognizer | null>(null)
+  // Where speech is transcribed (see lib/stt), from /api/transcribe
+  const [sttProvider, setSttProvider] = useState<STTProvider>('openai')
+  const sttProviderRef = useRef<STTProvider>('openai')
+  sttProviderRef.current = sttProvider
+  const livePreviewRef = useRef(false)
   const audioChunksRef = useRef<Blob[]>([])
-  const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null)
+  const playerRef = useRef<StreamingAudioPlayer | null>(null)
+  const speechRef = useRef<SpeechQueue | null>(null)
+  // Aborts the answer being streamed
+  const abortRef = useRef<AbortController | null>(null)
+  // The language Whisper heard in the latest recording (with the setting on
+  // 'auto'), and the language of the answer being spoken
+  const spokenLanguageRef = useRef<LanguageCode | null>(null)
+  const replyLanguageRef = useRef<LanguageCode | null>(null)
+  // Recording callbacks outlive renders, so they read the setting from here
+  const languageRef = useRef(language)
+  languageRef.current = language
+  const conversationRef = useRef<Conversation | null>(null)
+  const isSpeakingRef = useRef(false)
+  const turnInProgressRef = useRef(false)
+  const chatsRef = useRef<Chat[]>([])
+  const syncRef = useRef({ running: false, again: false, pull: false })
+  const searchIndex = useRef(new ChatSearchIndex()).current
 
   // Get active chat
   const activeChat = chats.find(c => c.id === activeChatId) || null
   const messages = activeChat?.messages || []
+  // Other branches of the chat at each message, for the branch switcher
+  const branchSiblings = activeChat ? messages.map((_, index) => siblingsAt(activeChat, index)) : []
+  const activeLibraryId = activeChat?.libraryId || selectedLibraryId || libraries[0]?.id || null
 
-  // Load chats from localStorage on mount
+  // Load settings from localStorage on mount
   useEffect(() => {
-    const loaded = loadChats()
+    const sort = localStorage.getItem(SORT_KEY)
+    if (isChatSort(sort)) setSortOrder(sort)
+    const savedLanguage = localStorage.getItem(LANGUAGE_KEY)
+    if (isLanguageSetting(savedLanguage)) setLanguage(savedLanguage)
+  }, [])
+
+  // Remember how the sidebar is sorted
+  const changeSortOrder = (sort: ChatSort) => {
+    setSortOrder(sort)
+    localStorage.setItem(SORT_KEY, sort)
+  }
+
+  // Remember the language to listen and answer in
+  const changeLanguage = (setting: LanguageSetting) => {
+    setLanguage(setting)
+    localStorage.setItem(LANGUAGE_KEY, setting)
+  }
+
+  const allTags = Array.from(new Set(chats.flatMap(chat => chat.tags))).sort((a, b) => a.localeCompare(b))
+  const listedChats = sortChats(
+    tagFilter ? chats.filter(chat => chat.tags.includes(tagFilter)) : chats,
+    sortOrder
+  )
+
+  // Forget a tag filter once no chat has that tag any more
+  useEffect(() => {
+    if (tagFilter && !chats.some(chat => chat.tags.includes(tagFilter))) setTagFilter(null)
+  }, [chats, tagFilter])
+
+  // Load this user's chats from localStorage once we know who is signed in
+  useEffect(() => {
+    if (!userId) return
+    const loaded = claimUnscopedChats(userId, loadChats(userId))
     if (loaded.length > 0) {
       setChats(loaded)
       setActiveChatId(loaded[0].id)
     }
+  }, [userId])
+
+  // Keep the latest chats at hand for the background sync
+  useEffect(() => {
+    chatsRef.current = chats
+  }, [chats])
+
+  // Keep a chat selected when sync adds or removes chats
+  useEffect(() => {
+    if (chats.length > 0 && !chats.some(c => c.id === activeChatId)) {
+      setActiveChatId(chats[0].id)
+    }
+  }, [chats, activeChatId])
+
+  // Merge in the server's chats, or upload local changes. Runs one at a
+  // time; calls made meanwhile are folded into one more run.
+  const syncChats = useCallback(async (pull: boolean) => {
+    const sync = syncRef.current
+    if (sync.running) {
+      sync.again = true
+      sync.pull = sync.pull || pull
+      return
+    }
+    sync.running = true
+
+    try {
+      if (pull) {
+        const server = await fetchChats()
+        // Anything left to upload is picked up once the merge lands
+        if (server) setChats(prev => mergeChats(prev, server, reviveChat))
+        return
+      }
+
+      for (const chat of chatsRef.current.filter(isDirty)) {
+        const sentHash = contentHash(chat)
+        const result = await pushChat(chat)
+        // Offline or the server is unhappy; try again on the next change
+        if (result.status === 'failed') break
+
+        setChats(prev => prev.flatMap(current => {
+          if (current.id !== chat.id) return [current]
+          if (result.status === 'saved') {
+            return [{
+              ...current,
+              version: result.chat.version,
+              updatedAt: result.chat.updatedAt,
+              syncedHash: sentHash,
+            }]
+          }
+          // Deleted on another device while we changed it: upload it again
+          if (!result.current) return [{ ...current, version: undefined, updatedAt: undefined }]
+          return resolveConflict(current, result.current, reviveChat)
+        }))
+      }
+    } finally {
+      sync.running = false
+      if (sync.again) {
+        const again = sync.pull
+        sync.again = false
+        sync.pull = false
+        syncChats(again)
+      }
+    }
   }, [])
 
-  // Save chats whenever they change
+  // Sync on load and whenever the page comes back into view or online
   useEffect(() => {
-    if (chats.length > 0) {
-      saveChats(chats)
+    if (!userId) return
+    const syncVisible = () => {
+      if (document.visibilityState === 'visible') syncChats(true)
     }
-  }, [chats])
+    syncChats(true)
+    document.addEventListener('visibilitychange', syncVisible)
+    window.addEventListener('online', syncVisible)
+    return () => {
+      document.removeEventListener('visibilitychange', syncVisible)
+      window.removeEventListener('online', syncVisible)
+    }
+  }, [syncChats, userId])
+
+  // Upload changes shortly after they're made, but not while an answer streams
+  useEffect(() => {
+    if (!userId || isLoading || !chats.some(isDirty)) return
+    const timer = setTimeout(() => syncChats(false), SYNC_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [chats, isLoading, syncChats, userId])
+
+  // Find out who is signed in
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        setUserId(data?.user?.id || null)
+        setIsAdmin(data?.user?.admin === true)
+      })
+      .catch(e => console.error('Failed to load session:', e))
+  }, [])
+
+  // Load the user's voice settings
+  useEffect(() => {
+    fetch('/api/preferences')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (data?.preferences?.voice) setVoicePreferences(data.preferences.voice)
+      })
+      .catch(e => console.error('Failed to load preferences:', e))
+  }, [])
+
+  // /api/tts applies them to every answer from now on
+  const saveVoicePreferences = async (voice: VoicePreferences) => {
+    const response = await fetch('/api/preferences', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ voice }),
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to save voice settings')
+    setVoicePreferences(data.preferences.voice)
+    setShowVoiceSettings(false)
+  }
+
+  // Sign out, uploading unsynced changes first. This user's chats are then
+  // cleared from the browser, unless some couldn't be uploaded: those stay,
+  // under this user's key, if they choose to sign out anyway.
+  const signOut = async () => {
+    // Let a background sync finish, and keep new ones from starting
+    const sync = syncRef.current
+    while (sync.running) await new Promise(resolve => setTimeout(resolve, 100))
+    sync.running = true
+
+    let unsaved = 0
+    for (const chat of chatsRef.current.filter(isDirty)) {
+      const result = await pushChat(chat)
+      if (result.status !== 'saved') unsaved++
+    }
+    if (unsaved > 0) {
+      const count = unsaved === 1 ? '1 chat' : `${unsaved} chats`
+      const confirmed = window.confirm(
+        `${count} couldn't be saved to the server. Sign out anyway? ` +
+        'They will stay in this browser until you sign in again.'
+      )
+      if (!confirmed) {
+        sync.running = false
+        return
+      }
+    }
+
+    try {
+      await fetch('/api/auth/signout', { method: 'POST' })
+    } finally {
+      if (unsaved === 0 && userId) localStorage.removeItem(chatsKey(userId))
+      window.location.href = '/signin'
+    }
+  }
+
+  // Find out whether speech is transcribed on the server or in the browser
+  useEffect(() => {
+    fetch('/api/transcribe')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (data?.provider) setSttProvider(data.provider)
+        livePreviewRef.current = data?.livePreview === true
+      })
+      .catch(e => console.error('Failed to load the transcription provider:', e))
+  }, [])
+
+  // Load the libraries chats can search
+  useEffect(() => {
+    fetch('/api/libraries')
+      .then(response => response.json())
+      .then(data => {
+        if (Array.isArray(data.libraries)) setLibraries(data.libraries)
+      })
+      .catch(e => console.error('Failed to load libraries:', e))
+  }, [])
+
+  // Save chats whenever they change, and keep the search index in step
+  useEffect(() => {
+    searchIndex.update(chats)
+    if (userId && chats.length > 0) {
+      saveChats(userId, chats)
+    }
+  }, [chats, searchIndex, userId])
+
+  // Search runs after the index update above, so results never lag a change
+  useEffect(() => {
+    setSearchResults(searchQuery.trim() ? searchIndex.search(searchQuery) : [])
+  }, [chats, searchQuery, searchIndex])
+
+  // Create the audio player and speech queue once on the client
+  useEffect(() => {
+    const player = new StreamingAudioPlayer()
+    player.onStart = () => setIsSpeaking(true)
+    player.onEnd = () => setIsSpeaking(false)
+    playerRef.current = player
+    speechRef.current = new SpeechQueue(player, text => requestSpeech(text, replyLanguageRef.current))
+    return () => player.stop()
+  }, [])
+
+  // Track playback for the VAD callbacks and raise the bar for barge-in
+  useEffect(() => {
+    isSpeakingRef.current = isSpeaking
+    const conversation = conversationRef.current
+    if (conversation) {
+      conversation.vad.minLevel = isSpeaking ? VAD_BARGE_IN_LEVEL : VAD_MIN_LEVEL
+    }
+  }, [isSpeaking])
 
   // Scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [messages])
 
-  // Transcribe audio using Whisper API
-  const transcribeAudio = async (audioBlob: Blob) => {
+  // Scroll to the message a search result points at, after the scroll above
+  useEffect(() => {
+    if (!jumpTarget) return
+    const scroll = setTimeout(() => {
+      document.getElementById(`message-${jumpTarget}`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    }, 100)
+    const clear = setTimeout(() => setJumpTarget(null), 2500)
+    return () => {
+      clearTimeout(scroll)
+      clearTimeout(clear)
+    }
+  }, [jumpTarget])
+
+  const openSearchResult = (result: SearchResult) => {
+    setActiveChatId(result.chatId)
+    setJumpTarget(result.messageId)
+    setShowSidebar(false)
+  }
+
+  // Transcribe a recording (or an uploaded voice memo) on the server.
+  // duration is in seconds, as measured here.
+  const transcribeAudio = async (audio: Blob, duration: number): Promise<Transcript | null> => {
     setIsTranscribing(true)
     try {
       const formData = new FormData()
-      formData.append('audio', audioBlob, 'recording.webm')
+      formData.append('audio', audio, audio instanceof File ? audio.name : 'recording')
+      formData.append('language', languageRef.current)
+      formData.append('duration', String(duration))
       
       const response = await fetch('/api/transcribe', {
         method: 'POST',
         body: formData,
       })
       
+      const data = await response.json()
+
+      // Over a limit: explain it instead of reporting a failure
+      if (response.status === 429 && isUsageLimitBody(data)) {
+        setNotice(describeUsageLimit(data))
+        return { text: '', language: null, duration: 0, segments: [] }
+      }
+      // Refused the recording itself: say what was wrong with it
+      if (!response.ok && isTranscribeErrorBody(data) && data.code !== 'transcription_failed') {
+        setNotice(describeTranscribeError(data))
+        return { text: '', language: null, duration: 0, segments: [] }
+      }
       if (!response.ok) {
         throw new Error('Transcription failed')
       }
-      
-      const data = await response.json()
-      if (data.text) {
-        setInputText(data.text)
+
+      spokenLanguageRef.current = isLanguageCode(data.language) ? data.language : null
+      return {
+        text: typeof data.text === 'string' ? data.text : '',
+        language: spokenLanguageRef.current,
+        duration: typeof data.duration === 'number' ? data.duration : 0,
+        segments: Array.isArray(data.segments) ? data.segments : [],
       }
     } catch (error) {
       console.error('Transcription error:', error)
-      alert('Failed to transcribe audio. Please try again.')
+      return null
+    } finally {
+      setIsTranscribing(false)
+    }
+  }
+
+  // Whether speech is recognized in the page rather than uploaded; says
+  // why not when the browser can't
+  const recognizesInBrowser = (): boolean => {
+    if (sttProviderRef.current !== 'browser') return false
+    if (!isBrowserRecognitionSupported()) {
+      throw new Error('This browser can\'t recognize speech. Try Chrome, Edge or Safari.')
+    }
+    return true
+  }
+
+  const startRecognizer = (): BrowserRecognizer => {
+    const setting = languageRef.current
+    const recognizer = new BrowserRecognizer(setting === 'auto' ? null : setting)
+    recognizer.onInterim = setInterimText
+    setInterimText('')
+    recognizer.start()
+    return recognizer
+  }
+
+  // Show what is being said while a recording is made for the server, when
+  // the browser can recognize speech and the deployment allows it
+  const startPreview = (): BrowserRecognizer | null => {
+    setInterimText('')
+    if (!livePreviewRef.current || !isBrowserRecognitionSupported()) return null
+    try {
+      return startRecognizer()
+    } catch (error) {
+      console.error('Live preview unavailable:', error)
+      return null
+    }
+  }
+
+  // The browser's counterpart to transcribeAudio
+  const finishRecognizer = async (recognizer: BrowserRecognizer): Promise<Transcript | null> => {
+    setIsTranscribing(true)
+    try {
+      const transcript = await recognizer.stop()
+      spokenLanguageRef.current = isLanguageCode(transcript.language) ? transcript.language : null
+      return transcript
+    } catch (error) {
+      console.error('Recognition error:', error)
+      return null
     } finally {
       setIsTranscribing(false)
     }
   }
 
+  // Ask with a voice memo recorded elsewhere; it is checked here first,
+  // then transcribed and reviewed like a recording
+  const uploadVoiceMemo = async (file: File) => {
+    setNotice(null)
+    const duration = await audioDuration(file)
+    const refused = !resolveAudioFormat(file.type, file.name)
+      ? 'unsupported_format'
+      : file.size > MAX_AUDIO_BYTES
+      ? 'audio_too_large'
+      : duration > MAX_AUDIO_SECONDS
+      ? 'audio_too_long'
+      : null
+    if (refused) {
+      setNotice(describeTranscribeError({ error: '', code: refused }))
+      return
+    }
+
+    setInputText('')
+    const transcript = await transcribeAudio(file, duration)
+    if (transcript === null) {
+      alert('Failed to transcribe the voice memo. Please try again.')
+    } else if (transcript.segments.length > 0) {
+      openReview(transcript, file)
+    } else if (transcript.text) {
+      setInputText(transcript.text)
+    }
+  }
+
+  // Show a transcript for checking before it is sent
+  const openReview = (transcript: Transcript, recording: Blob | null) => {
+    setEditingSegment(null)
+    setPlayingSegment(null)
+    setReview({
+      segments: transcript.segments,
+      edits: {},
+      audioUrl: recording && URL.createObjectURL(recording),
+    })
+  }
+
+  // The recording goes with its review
+  const reviewAudioUrl = review?.audioUrl
+  useEffect(() => {
+    if (!reviewAudioUrl) return
+    return () => URL.revokeObjectURL(reviewAudioUrl)
+  }, [reviewAudioUrl])
+
+  const editSegment = (index: number, text: string) => {
+    setReview(prev => prev && { ...prev, edits: { ...prev.edits, [index]: text } })
+  }
+
+  // Play one segment of the recording; onTimeUpdate stops it at the segment's end
+  const playSegment = (index: number) => {
+    const audio = reviewAudioRef.current
+    if (!audio || !review) return
+    if (playingSegment === index) {
+      audio.pause()
+      return
+    }
+    audio.currentTime = review.segments[index].start
+    setPlayingSegment(index)
+    audio.play().catch(error => {
+      console.error('Playback error:', error)
+      setPlayingSegment(null)
+    })
+  }
+
+  // Send the checked transcript, or move it to the input to edit it as text
+  const finishReview = (action: 'send' | 'edit' | 'discard') => {
+    if (!review) return
+    const text = transcriptText(review.segments.map((segment, index) => ({
+      text: review.edits[index] ?? segment.text,
+    })))
+    reviewAudioRef.current?.pause()
+    setReview(null)
+    setEditingSegment(null)
+
+    if (action === 'send') {
+      playerRef.current?.unlock()
+      sendMessage(text)
+    } else if (action === 'edit') {
+      setInputText(text)
+    } else {
+      spokenLanguageRef.current = null
+    }
+  }
+
   const createNewChat = useCallback(() => {
     const newChat: Chat = {
       id: Date.now().toString(),
       name: `Chat ${chats.length + 1}`,
       threadId: null,
+      libraryId: activeLibraryId || undefined,
+      // Started while a folder is open: file it there
+      pinned: false,
+      tags: tagFilter ? [tagFilter] : [],
       messages: [],
+      branches: [],
       createdAt: new Date()
     }
     setChats(prev => [newChat, ...prev])
     setActiveChatId(newChat.id)
     setShowSidebar(false)
-  }, [chats.length])
+  }, [chats.length, activeLibraryId, tagFilter])
+
+  const togglePin = useCallback((chatId: string) => {
+    setChats(prev => prev.map(chat =>
+      chat.id === chatId ? { ...chat, pinned: !chat.pinned } : chat
+    ))
+  }, [])
+
+  const startEditing = (chat: Chat) => {
+    setEditing({ chatId: chat.id, name: chat.name, tags: chat.tags.join(', ') })
+  }
+
+  // Save the name and tags typed in the sidebar; an emptied name is left as it was
+  const finishEditing = () => {
+    if (!editing) return
+    const name = editing.name.trim()
+    const tags = parseTags(editing.tags)
+    setChats(prev => prev.map(chat => {
+      if (chat.id !== editing.chatId) return chat
+      const renamed = name && name !== chat.name
+      return {
+        ...chat,
+        tags,
+        ...(renamed && { name, nameSource: 'user' as const }),
+      }
+    }))
+    setEditing(null)
+  }
+
+  // Name a chat after its first exchange, unless it has been renamed meanwhile
+  const titleChat = async (chatId: string, question: string, answer: string) => {
+    const title = await requestTitle(question, answer)
+    if (!title) return
+    setChats(prev => prev.map(chat =>
+      chat.id === chatId && !chat.nameSource ? { ...chat, name: title, nameSource: 'auto' } : chat
+    ))
+  }
+
+  // Switch the library the active chat (and new chats) search
+  const selectLibrary = useCallback((libraryId: string) => {
+    setSelectedLibraryId(libraryId)
+    if (!activeChatId) return
+    setChats(prev => prev.map(chat =>
+      chat.id === activeChatId ? { ...chat, libraryId } : chat
+    ))
+  }, [activeChatId])
 
   const deleteChat = useCallback((chatId: string) => {
+    if (chatsRef.current.find(c => c.id === chatId)?.version) {
+      deleteServerChat(chatId)
+    }
     setChats(prev => {
       const filtered = prev.filter(c => c.id !== chatId)
       if (activeChatId === chatId) {
         setActiveChatId(filtered.length > 0 ? filtered[0].id : null)
       }
-      if (filtered.length === 0) {
-        localStorage.removeItem(STORAGE_KEY)
+      if (filtered.length === 0 && userId) {
+        localStorage.removeItem(chatsKey(userId))
       }
       return filtered
     })
-  }, [activeChatId])
+  }, [activeChatId, userId])
+
+  // Save the active chat as Markdown, a printable page (PDF) or JSON
+  const exportChat = useCallback((format: 'markdown' | 'pdf' | 'json') => {
+    if (!activeChat) return
+    const libraryName = libraries.length > 1
+      ? libraries.find(l => l.id === (activeChat.libraryId || libraries[0].id))?.name
+      : undefined
+
+    if (format === 'markdown') {
+      downloadFile(exportFilename(activeChat, 'md'), chatToMarkdown(activeChat, { libraryName }), 'text/markdown')
+    } else if (format === 'json') {
+      downloadFile(exportFilename(activeChat, 'json'), chatToJson(activeChat), 'application/json')
+    } else if (!printChat(activeChat, { libraryName })) {
+      setNotice('Allow pop-ups for this site to print or save the chat as a PDF')
+    }
+  }, [activeChat, libraries])
+
+  // Add a chat from a JSON export. It gets a new id so it can't overwrite the
+  // chat it came from, and starts a new backend conversation on the next
+  // question, since the exported one belongs to whoever exported it.
+  const importChat = useCallback(async (file: File) => {
+    const imported = parseChatExport(await file.text())
+    if (typeof imported === 'string') {
+      setNotice(`Couldn't import ${file.name}: ${imported}`)
+      return
+    }
+
+    const chat: Chat = {
+      ...reviveChat(imported),
+      id: Date.now().toString(),
+      threadId: null,
+    }
+    setChats(prev => [chat, ...prev])
+    setActiveChatId(chat.id)
+    setShowSidebar(false)
+  }, [])
 
   const clearChat = useCallback((chatId: string) => {
     setChats(prev => prev.map(chat => 
       chat.id === chatId 
-        ? { ...chat, messages: [], threadId: null }
+        ? { ...chat, messages: [], branches: [], threadId: null }
         : chat
     ))
   }, [])
 
   const toggleRecording = useCallback(async () => {
     if (isRecording) {
+      // Stop recognizing in the browser, and review what it heard
+      const recognizer = recognizerRef.current
+      if (recognizer) {
+        recognizerRef.current = null
+        setIsRecording(false)
+        const transcript = await finishRecognizer(recognizer)
+        if (transcript === null) {
+          alert('Failed to recognize speech. Please try again.')
+        } else if (transcript.segments.length > 0) {
+          openReview(transcript, null)
+        }
+        return
+      }
+
       // Stop recording
       if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
         mediaRecorderRef.current.stop()
       }
       setIsRecording(false)
     } else {
+      try {
+        if (recognizesInBrowser()) {
+          recognizerRef.current = startRecognizer()
+          setInputText('')
+          setIsRecording(true)
+          return
+        }
+      } catch (error) {
+        alert(error instanceof Error ? error.message : String(error))
+        return
+      }
+
       // Start recording
       try {
         const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
-        const mediaRecorder = new MediaRecorder(stream)
+        let mediaRecorder: MediaRecorder
+        try {
+          mediaRecorder = createRecorder(stream)
+        } catch (error) {
+          stream.getTracks().forEach(track => track.stop())
+          alert(error instanceof Error ? error.message : String(error))
+          return
+        }
         mediaRecorderRef.current = mediaRecorder
+        let startedAt = 0
         audioChunksRef.current = []
         
         mediaRecorder.ondataavailable = (event) => {
@@ -247,17 +1468,32 @@ export default function Home() {
           }
         }
         
+        const preview = startPreview()
+
         mediaRecorder.onstop = async () => {
           // Stop all tracks to release microphone
           stream.getTracks().forEach(track => track.stop())
+          const previewed = preview ? preview.stop().catch(() => null) : null
           
-          // Create audio blob and transcribe
-          const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' })
-          await transcribeAudio(audioBlob)
+          // Create audio blob and transcribe; the transcript replaces the preview
+          const audioBlob = new Blob(audioChunksRef.current, { type: mediaRecorder.mimeType })
+          const transcript = await transcribeAudio(audioBlob, (Date.now() - startedAt) / 1000)
+          const fallback = transcript === null ? await previewed : null
+          if (transcript === null && fallback?.segments.length) {
+            // The server couldn't transcribe it, but the browser heard something
+            openReview(fallback, null)
+          } else if (transcript === null) {
+            alert('Failed to transcribe audio. Please try again.')
+          } else if (transcript.segments.length > 0) {
+            openReview(transcript, audioBlob)
+          } else if (transcript.text) {
+            setInputText(transcript.text)
+          }
         }
         
         setInputText('')
         mediaRecorder.start()
+        startedAt = Date.now()
         setIsRecording(true)
       } catch (error) {
         console.error('Error accessing microphone:', error)
@@ -266,17 +1502,24 @@ export default function Home() {
     }
   }, [isRecording])
 
-  const sendMessage = async (text: string) => {
+  // Send a question. A new branch starts its own conversation, replaying the
+  // messages before it; so does a retry on a branch that has none yet.
+  const sendMessage = async (text: string, { forkAt, retryAt }: SendOptions = {}) => {
     if (!text.trim() || isLoading) return
+    setNotice(null)
 
     // Create a new chat if none exists
     let currentChatId = activeChatId
     if (!currentChatId) {
       const newChat: Chat = {
         id: Date.now().toString(),
-        name: text.slice(0, 30) + (text.length > 30 ? '...' : ''),
+        name: defaultName(text),
         threadId: null,
+        libraryId: activeLibraryId || undefined,
+        pinned: false,
+        tags: tagFilter ? [tagFilter] : [],
         messages: [],
+        branches: [],
         createdAt: new Date()
       }
       setChats(prev => [newChat, ...prev])
@@ -291,113 +1534,383 @@ export default function Home() {
       timestamp: new Date(),
     }
 
+    // Answer in the chosen language, or the one the question was spoken in
+    const replyLanguage = language === 'auto' ? spokenLanguageRef.current : language
+    spokenLanguageRef.current = null
+
+    const currentChat = chats.find(c => c.id === currentChatId)
+    const forking = forkAt !== undefined && !!currentChat
+    const retrying = retryAt !== undefined && !!currentChat
+    // Where the question goes, and the conversation it continues
+    const askedAt = forkAt ?? retryAt ?? currentChat?.messages.length ?? 0
+    const firstExchange = askedAt === 0
+    const threadId = forking ? null : currentChat?.threadId || null
+    const replay = currentChat && askedAt > 0
+      ? currentChat.messages
+          .slice(0, askedAt)
+          .filter(m => m.status !== 'failed')
+          .map(m => ({ role: m.role, content: m.content }))
+      : undefined
+
     // Update chat with user message
-    setChats(prev => prev.map(chat => 
-      chat.id === currentChatId 
-        ? { 
-            ...chat, 
-            messages: [...chat.messages, userMessage],
-            name: chat.messages.length === 0 ? text.slice(0, 30) + (text.length > 30 ? '...' : '') : chat.name
-          }
-        : chat
-    ))
-    
-    setInputText('')
+    setChats(prev => prev.map(chat => {
+      if (chat.id !== currentChatId) return chat
+      if (forking) return forkChat(chat, forkAt, userMessage)
+      if (retrying) return { ...chat, messages: [...chat.messages.slice(0, retryAt), userMessage] }
+      return {
+        ...chat,
+        messages: [...chat.messages, userMessage],
+        name: chat.messages.length === 0 && !chat.nameSource ? defaultName(text) : chat.name
+      }
+    }))
+
+    // Take the question back, so it can be sent again later
+    const takeBack = () => {
+      setChats(prev => prev.map(chat => {
+        if (chat.id !== currentChatId) return chat
+        // Undo the fork or retry, so the path it replaced is shown again
+        if (currentChat && (forking || retrying)) return currentChat
+        return { ...chat, messages: chat.messages.filter(m => m.id !== userMessage.id) }
+      }))
+      if (!forking && !retrying) setInputText(text)
+    }
+
+    const assistantMessage: Message = {
+      id: (Date.now() + 1).toString(),
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
+    }
+
+    // Insert or replace the assistant message as the answer grows
+    const updateAssistantMessage = (changes: Partial<Message>, threadId?: string) => {
+      Object.assign(assistantMessage, changes)
+      const snapshot = { ...assistantMessage }
+      setChats(prev => prev.map(chat =>
+        chat.id === currentChatId
+          ? {
+              ...chat,
+              messages: [...chat.messages.filter(m => m.id !== snapshot.id), snapshot],
+              threadId: threadId || chat.threadId
+            }
+          : chat
+      ))
+    }
+
+    if (!forking && !retrying) setInputText('')
     setIsLoading(true)
+    const controller = new AbortController()
+    abortRef.current = controller
 
     try {
-      const currentChat = chats.find(c => c.id === currentChatId)
-      
-      const response = await fetch('/api/chat', {
+      const requestAnswer = (continuing: string | null) => fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
           message: text.trim(),
-          threadId: currentChat?.threadId || null
+          threadId: continuing,
+          history: continuing ? undefined : replay,
+          libraryId: currentChat?.libraryId || activeLibraryId,
+          language: replyLanguage,
         }),
+        signal: controller.signal,
       })
 
-      if (!response.ok) throw new Error('Failed to get response')
+      // The server won't continue a conversation it can't tell is ours
+      // (one from before sign-in); start a new one from the chat so far
+      let response = await requestAnswer(threadId)
+      if (response.status === 404 && threadId) {
+        response = await requestAnswer(null)
+      }
 
-      const data = await response.json()
+      // The session expired; sign in again and come back
+      if (response.status === 401) {
+        window.location.href = '/signin'
+        return
+      }
 
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: data.response,
-        timestamp: new Date(),
-        sources: data.sources,
-        debug: data.debug,
+      // Over a limit: take the message back so it can be sent again later
+      if (response.status === 429) {
+        const data = await response.json().catch(() => null)
+        if (isUsageLimitBody(data)) {
+          takeBack()
+          setNotice(describeUsageLimit(data))
+          return
+        }
       }
+      if (!response.ok || !response.body) throw new Error('Failed to get response')
 
-      // Update chat with assistant message and thread ID
-      setChats(prev => prev.map(chat => 
-        chat.id === currentChatId 
-          ? { 
-              ...chat, 
-              messages: [...chat.messages.filter(m => m.id !== userMessage.id), userMessage, assistantMessage],
-              threadId: data.threadId || chat.threadId
-            }
-          : chat
-      ))
+      // Speak each sentence as soon as it has streamed in
+      const speech = voiceEnabled ? speechRef.current : null
+      replyLanguageRef.current = replyLanguage
+      speech?.begin()
 
-      // Speak the response using client-side TTS (Web Speech API)
-      if (voiceEnabled && typeof window !== 'undefined' && window.speechSynthesis) {
-        // Cancel any ongoing speech
-        window.speechSynthesis.cancel()
-        
-        const utterance = new SpeechSynthesisUtterance(data.response)
-        utterance.rate = 1.0
-        utterance.pitch = 1.0
-        
-        // Try to find a good female voice
-        const voices = window.speechSynthesis.getVoices()
-        const preferredVoice = voices.find(v => 
-          v.name.includes('Samantha') || // macOS
-          v.name.includes('Microsoft Zira') || // Windows
-          v.name.includes('Google UK English Female') || // Chrome
-          (v.lang.startsWith('en') && v.name.toLowerCase().includes('female'))
-        ) || voices.find(v => v.lang.startsWith('en'))
-        
-        if (preferredVoice) {
-          utterance.voice = preferredVoice
+      for await (const event of readChatEvents(response.body)) {
+        switch (event.type) {
+          case 'thread':
+            setChats(prev => prev.map(chat =>
+              chat.id === currentChatId ? { ...chat, threadId: event.threadId } : chat
+            ))
+            break
+          case 'tool_call':
+            if (event.tool === 'file_search') setActivity('Searching the library...')
+            break
+          case 'text':
+            setActivity(null)
+            updateAssistantMessage({ content: assistantMessage.content + event.delta })
+            speech?.push(event.delta)
+            break
+          case 'citations':
+            updateAssistantMessage({
+              ...(event.text !== undefined && { content: event.text }),
+              citations: event.citations,
+              sources: citedFilenames(event.citations),
+            })
+            break
+          case 'done':
+            updateAssistantMessage({ debug: event.debug }, event.threadId)
+            break
+          case 'error':
+            throw new Error(event.error)
         }
-        
-        utterance.onstart = () => setIsSpeaking(true)
-        utterance.onend = () => setIsSpeaking(false)
-        utterance.onerror = () => setIsSpeaking(false)
-        
-        utteranceRef.current = utterance
-        window.speechSynthesis.speak(utterance)
+      }
+
+      speech?.finish()
+
+      if (firstExchange && assistantMessage.content) {
+        titleChat(currentChatId, text.trim(), assistantMessage.content)
       }
     } catch (error) {
-      console.error('Error:', error)
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: 'Sorry, I encountered an error. Please try again.',
-        timestamp: new Date(),
+      speechRef.current?.cancel()
+      if (controller.signal.aborted) {
+        // Stopped: keep what had streamed in, or take the question back if nothing had
+        if (assistantMessage.content) {
+          updateAssistantMessage({ status: 'stopped' })
+        } else {
+          takeBack()
+        }
+      } else {
+        console.error('Error:', error)
+        // Keep any part of the answer that arrived; Retry asks again
+        updateAssistantMessage({
+          status: 'failed',
+          ...(!assistantMessage.content && { content: 'Sorry, I encountered an error. Please try again.' }),
+        })
       }
-      setChats(prev => prev.map(chat => 
-        chat.id === currentChatId 
-          ? { ...chat, messages: [...chat.messages, errorMessage] }
-          : chat
-      ))
     } finally {
+      abortRef.current = null
       setIsLoading(false)
+      setActivity(null)
     }
   }
 
+  // Stop the answer being streamed; /api/chat stops the model when the
+  // request is aborted
+  const stopAnswer = () => {
+    abortRef.current?.abort()
+  }
+
+  // Ask the last question again. A finished answer is kept on a branch of
+  // its own; one that was stopped or failed is replaced.
+  const regenerate = () => {
+    const index = messages.length - 2
+    const question = messages[index]
+    const answer = messages[messages.length - 1]
+    if (question?.role !== 'user' || answer?.role !== 'assistant') return
+    playerRef.current?.unlock()
+    sendMessage(question.content, answer.status ? { retryAt: index } : { forkAt: index })
+  }
+
+  // Callbacks from the voice activity detector outlive this render, so they
+  // reach the latest sendMessage (and the chat state it closes over) via a ref
+  const sendMessageRef = useRef(sendMessage)
+  sendMessageRef.current = sendMessage
+
+  const handleSpeechStart = () => {
+    const conversation = conversationRef.current
+    if (!conversation || conversation.recorder || conversation.recognizer) return
+
+    // Barge-in: the user talking over Philo cuts the answer short
+    if (isSpeakingRef.current) {
+      speechRef.current?.cancel()
+    }
+
+    // Don't start a new question until the previous one has been answered
+    if (turnInProgressRef.current) return
+
+    // startConversation has checked the browser can recognize speech
+    if (sttProviderRef.current === 'browser') {
+      conversation.recognizer = startRecognizer()
+      setIsRecording(true)
+      return
+    }
+
+    // startConversation has checked the browser can record a format we accept
+    const recorder = createRecorder(conversation.stream)
+    const chunks: Blob[] = []
+    let startedAt = 0
+    const preview = startPreview()
+    conversation.preview = preview
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data)
+      }
+    }
+
+    recorder.onstop = async () => {
+      turnInProgressRef.current = true
+      preview?.abort()
+      conversation.preview = null
+      try {
+        const audioBlob = new Blob(chunks, { type: recorder.mimeType })
+        const text = (await transcribeAudio(audioBlob, (Date.now() - startedAt) / 1000))?.text
+        if (text && text.trim() && conversationRef.current) {
+          await sendMessageRef.current(text)
+        }
+      } finally {
+        turnInProgressRef.current = false
+      }
+    }
+
+    conversation.recorder = recorder
+    recorder.start()
+    startedAt = Date.now()
+    setIsRecording(true)
+  }
+
+  // The question the browser recognized goes straight to sendMessage
+  const sendRecognized = async (recognizer: BrowserRecognizer) => {
+    turnInProgressRef.current = true
+    try {
+      const text = (await finishRecognizer(recognizer))?.text
+      if (text && text.trim() && conversationRef.current) {
+        await sendMessageRef.current(text)
+      }
+    } finally {
+      turnInProgressRef.current = false
+    }
+  }
+
+  const handleSpeechEnd = () => {
+    const conversation = conversationRef.current
+    if (conversation?.recognizer) {
+      const recognizer = conversation.recognizer
+      conversation.recognizer = null
+      setIsRecording(false)
+      sendRecognized(recognizer)
+      return
+    }
+
+    const recorder = conversation?.recorder
+    if (!conversation || !recorder) return
+
+    conversation.recorder = null
+    setIsRecording(false)
+    if (recorder.state !== 'inactive') {
+      recorder.stop()
+    }
+  }
+
+  const stopConversation = useCallback(() => {
+    const conversation = conversationRef.current
+    if (!conversation) return
+    conversationRef.current = null
+
+    conversation.vad.destroy()
+    conversation.recognizer?.abort()
+    conversation.preview?.abort()
+    if (conversation.recorder && conversation.recorder.state !== 'inactive') {
+      // Drop the half-finished question rather than sending it
+      conversation.recorder.onstop = null
+      conversation.recorder.stop()
+    }
+    conversation.stream.getTracks().forEach(track => track.stop())
+
+    setIsRecording(false)
+    setConversationMode(false)
+  }, [])
+
+  // Release the microphone when leaving the page
+  useEffect(() => stopConversation, [stopConversation])
+
+  const startConversation = async () => {
+    try {
+      if (!recognizesInBrowser() && !pickRecorderMimeType()) {
+        throw new Error('This browser can\'t record audio in a format Philo can transcribe.')
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error))
+      return
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+      })
+      const vad = new VoiceActivityDetector(stream, {
+        minLevel: isSpeakingRef.current ? VAD_BARGE_IN_LEVEL : VAD_MIN_LEVEL,
+        onSpeechStart: () => handleSpeechStart(),
+        onSpeechEnd: () => handleSpeechEnd(),
+      })
+
+      conversationRef.current = { stream, vad, recorder: null, recognizer: null, preview: null }
+      vad.start()
+      playerRef.current?.unlock()
+      setVoiceEnabled(true)
+      setConversationMode(true)
+    } catch (error) {
+      console.error('Error accessing microphone:', error)
+      alert('Could not access microphone. Please check permissions.')
+    }
+  }
+
+  const toggleConversation = () => {
+    if (conversationMode) {
+      stopConversation()
+    } else {
+      startConversation()
+    }
+  }
+
+  const toggleCitation = (messageId: string, index: number) => {
+    setExpandedCitation(prev =>
+      prev?.messageId === messageId && prev.index === index ? null : { messageId, index }
+    )
+  }
+
+  // Jump from an inline [n] marker to its footnote
+  const showCitation = (messageId: string, index: number) => {
+    setExpandedCitation({ messageId, index })
+    document.getElementById(`citation-${messageId}-${index}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'nearest' })
+  }
+
+  // Ask an edited question in place of the one at `index`, on a new branch
+  const submitEdit = (index: number) => {
+    if (!editingMessage?.text.trim()) return
+    playerRef.current?.unlock()
+    sendMessage(editingMessage.text, { forkAt: index })
+    setEditingMessage(null)
+  }
+
+  // Show the previous (-1) or next (1) branch at the question at `index`
+  const flipBranch = (index: number, offset: number) => {
+    setEditingMessage(null)
+    setChats(prev => prev.map(chat =>
+      chat.id === activeChatId ? switchBranch(chat, index, offset) : chat
+    ))
+  }
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
+    playerRef.current?.unlock()
     sendMessage(inputText)
   }
 
   const stopSpeaking = () => {
-    if (typeof window !== 'undefined' && window.speechSynthesis) {
-      window.speechSynthesis.cancel()
-      setIsSpeaking(false)
-    }
+    speechRef.current?.cancel()
+    setIsSpeaking(false)
   }
   
   const toggleVoice = () => {
@@ -433,10 +1946,144 @@ export default function Home() {
                 </svg>
                 New Chat
               </button>
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="w-full mt-2 py-2 px-4 rounded-xl border border-phoenician-bronze/30 hover:bg-phoenician-navy/50
+                         transition-colors text-sm text-phoenician-sand/70 hover:text-phoenician-cream font-body"
+                title="Open a chat exported as JSON"
+              >
+                Import chat
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ''
+                  if (file) importChat(file)
+                }}
+              />
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search chats and sources…"
+                className="w-full mt-3 px-3 py-2 rounded-lg bg-phoenician-navy/50 border border-phoenician-bronze/30
+                         text-phoenician-cream placeholder-phoenician-sand/40 font-body
+                         focus:outline-none focus:border-phoenician-gold"
+              />
             </div>
-            
-            <div className="flex-1 overflow-y-auto p-2">
-              {chats.map(chat => (
+
+            {/* Search results replace the chat list while there is a query */}
+            {searchQuery.trim() && (
+              <div className="flex-1 overflow-y-auto p-2">
+                {searchResults.map(result => (
+                  <button
+                    key={`${result.chatId}-${result.messageId}`}
+                    onClick={() => openSearchResult(result)}
+                    className="w-full text-left p-3 rounded-lg mb-1 hover:bg-phoenician-navy/50 transition-colors font-body"
+                  >
+                    <span className="block truncate text-xs text-phoenician-gold/80">
+                      {chats.find(c => c.id === result.chatId)?.name}
+                    </span>
+                    <span className="block text-sm text-phoenician-cream/90 line-clamp-3">
+                      <Highlighted snippet={result.snippet} />
+                    </span>
+                    {result.sources.map(source => (
+                      <span key={source.text} className="block truncate text-xs text-phoenician-sand/60">
+                        📚 <Highlighted snippet={source} />
+                      </span>
+                    ))}
+                  </button>
+                ))}
+
+                {searchResults.length === 0 && (
+                  <p className="text-center text-phoenician-sand/50 font-body py-8">
+                    No matches
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className={`flex-1 overflow-y-auto p-2 ${searchQuery.trim() ? 'hidden' : ''}`}>
+              {/* Sorting and tag folders */}
+              {chats.length > 0 && (
+                <div className="px-1 pb-2 mb-1 border-b border-phoenician-bronze/20 font-body text-xs">
+                  <label className="flex items-center gap-2 text-phoenician-sand/60">
+                    Sort by
+                    <select
+                      value={sortOrder}
+                      onChange={(e) => changeSortOrder(e.target.value as ChatSort)}
+                      className="flex-1 px-2 py-1 rounded bg-phoenician-deep/80 border border-phoenician-bronze/30
+                               text-phoenician-cream focus:outline-none focus:border-phoenician-gold"
+                    >
+                      <option value="recent">Last used</option>
+                      <option value="created">Date started</option>
+                      <option value="name">Name</option>
+                    </select>
+                  </label>
+                  {allTags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {[null, ...allTags].map(tag => (
+                        <button
+                          key={tag ?? ''}
+                          onClick={() => setTagFilter(tag)}
+                          className={`px-2 py-0.5 rounded-full border transition-colors
+                                    ${tagFilter === tag
+                                      ? 'border-phoenician-gold bg-phoenician-gold/20 text-phoenician-cream'
+                                      : 'border-phoenician-bronze/30 text-phoenician-sand/70 hover:text-phoenician-cream'}`}
+                        >
+                          {tag ?? 'All'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {listedChats.map(chat => editing?.chatId === chat.id ? (
+                <form
+                  key={chat.id}
+                  onSubmit={(e) => { e.preventDefault(); finishEditing() }}
+                  className="p-3 rounded-lg mb-1 bg-phoenician-sea/40 border border-phoenician-gold/50 space-y-2 font-body"
+                >
+                  <input
+                    autoFocus
+                    value={editing.name}
+                    onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                    onKeyDown={(e) => { if (e.key === 'Escape') setEditing(null) }}
+                    placeholder="Chat name"
+                    className="w-full px-2 py-1 rounded bg-phoenician-deep/80 border border-phoenician-bronze/30
+                             text-phoenician-cream focus:outline-none focus:border-phoenician-gold"
+                  />
+                  <input
+                    value={editing.tags}
+                    onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                    onKeyDown={(e) => { if (e.key === 'Escape') setEditing(null) }}
+                    placeholder="Tags, separated by commas"
+                    className="w-full px-2 py-1 rounded bg-phoenician-deep/80 border border-phoenician-bronze/30 text-sm
+                             text-phoenician-cream placeholder-phoenician-sand/40 focus:outline-none focus:border-phoenician-gold"
+                  />
+                  <div className="flex justify-end gap-2 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => setEditing(null)}
+                      className="px-2 py-0.5 text-phoenician-sand/70 hover:text-phoenician-cream transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      className="px-2 py-0.5 rounded border border-phoenician-gold/60 text-phoenician-cream
+                               hover:bg-phoenician-gold/20 transition-colors"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </form>
+              ) : (
                 <div
                   key={chat.id}
                   className={`group flex items-center gap-2 p-3 rounded-lg cursor-pointer mb-1 transition-colors
@@ -444,10 +2091,42 @@ export default function Home() {
                               ? 'bg-phoenician-sea/40 border border-phoenician-bronze/30' 
                               : 'hover:bg-phoenician-navy/50'}`}
                   onClick={() => { setActiveChatId(chat.id); setShowSidebar(false) }}
+                  onDoubleClick={(e) => { e.stopPropagation(); startEditing(chat) }}
                 >
-                  <span className="flex-1 truncate text-phoenician-cream/90 font-body">
-                    {chat.name}
+                  <span className="flex-1 min-w-0 font-body">
+                    <span className="block truncate text-phoenician-cream/90">
+                      {chat.pinned && <span className="mr-1" title="Pinned">📌</span>}
+                      {chat.name}
+                    </span>
+                    {libraries.length > 1 && (
+                      <span className="block truncate text-xs text-phoenician-sand/50">
+                        {libraries.find(l => l.id === (chat.libraryId || libraries[0].id))?.name}
+                      </span>
+                    )}
+                    {chat.tags.length > 0 && (
+                      <span className="block truncate text-xs text-phoenician-gold/60">
+                        {chat.tags.map(tag => `#${tag}`).join(' ')}
+                      </span>
+                    )}
                   </span>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); togglePin(chat.id) }}
+                    className="opacity-0 group-hover:opacity-100 p-1 hover:bg-phoenician-wine/50 rounded transition-all"
+                    title={chat.pinned ? 'Unpin chat' : 'Pin chat'}
+                  >
+                    <svg className={`w-4 h-4 ${chat.pinned ? 'text-phoenician-gold' : 'text-phoenician-sand/70'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); startEditing(chat) }}
+                    className="opacity-0 group-hover:opacity-100 p-1 hover:bg-phoenician-wine/50 rounded transition-all"
+                    title="Rename or tag chat"
+                  >
+                    <svg className="w-4 h-4 text-phoenician-sand/70" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                    </svg>
+                  </button>
                   <button
                     onClick={(e) => { e.stopPropagation(); clearChat(chat.id) }}
                     className="opacity-0 group-hover:opacity-100 p-1 hover:bg-phoenician-wine/50 rounded transition-all"
@@ -476,6 +2155,30 @@ export default function Home() {
               )}
             </div>
             
+            {isAdmin && (
+              <Link
+                href="/admin"
+                className="p-4 border-t border-phoenician-bronze/30 text-phoenician-sand/70 hover:text-phoenician-cream
+                         transition-colors font-body text-center"
+              >
+                📚 Manage library
+              </Link>
+            )}
+
+            {userId && (
+              <div className="p-4 border-t border-phoenician-bronze/30 flex items-center gap-2 font-body">
+                <span className="flex-1 truncate text-sm text-phoenician-sand/60" title={userId}>
+                  {userId}
+                </span>
+                <button
+                  onClick={signOut}
+                  className="text-phoenician-sand/70 hover:text-phoenician-cream transition-colors"
+                >
+                  Sign out
+                </button>
+              </div>
+            )}
+
             <button
               onClick={() => setShowSidebar(false)}
               className="p-4 border-t border-phoenician-bronze/30 text-phoenician-sand/70 hover:text-phoenician-cream
@@ -557,6 +2260,79 @@ export default function Home() {
             <p className="font-body text-lg text-phoenician-sand/80 text-center">
               Your research assistant
             </p>
+
+            <div className="mt-3 flex justify-center gap-2">
+              {/* Library picker, shown when more than one library is configured */}
+              {libraries.length > 1 && (
+                <select
+                  value={activeLibraryId || ''}
+                  onChange={(e) => selectLibrary(e.target.value)}
+                  disabled={isLoading}
+                  className="px-3 py-1 rounded-lg bg-phoenician-deep/80 border border-phoenician-bronze/50
+                           text-phoenician-cream font-body focus:outline-none focus:border-phoenician-gold"
+                  title="Library to search"
+                >
+                  {libraries.map(library => (
+                    <option key={library.id} value={library.id}>📚 {library.name}</option>
+                  ))}
+                </select>
+              )}
+
+              {/* Language to listen and answer in */}
+              <select
+                value={language}
+                onChange={(e) => changeLanguage(e.target.value as LanguageSetting)}
+                className="px-3 py-1 rounded-lg bg-phoenician-deep/80 border border-phoenician-bronze/50
+                         text-phoenician-cream font-body focus:outline-none focus:border-phoenician-gold"
+                title="Language to listen and answer in"
+              >
+                <option value="auto">🌐 Any language</option>
+                {LANGUAGES.map(option => (
+                  <option key={option.code} value={option.code}>🌐 {option.nativeName}</option>
+                ))}
+              </select>
+
+              <button
+                onClick={() => setShowVoiceSettings(show => !show)}
+                className={`px-3 py-1 rounded-lg border font-body transition-colors ${
+                  showVoiceSettings
+                    ? 'bg-phoenician-sea/50 border-phoenician-gold text-phoenician-cream'
+                    : 'bg-phoenician-deep/80 border-phoenician-bronze/50 text-phoenician-cream hover:border-phoenician-gold'
+                }`}
+                title="Voice settings"
+              >
+                🔊 Voice
+              </button>
+            </div>
+
+            {/* Voice settings */}
+            <AnimatePresence>
+              {showVoiceSettings && (
+                <VoiceSettingsPanel
+                  saved={voicePreferences}
+                  onSave={saveVoicePreferences}
+                  onClose={() => setShowVoiceSettings(false)}
+                />
+              )}
+            </AnimatePresence>
+
+            {/* Export the active chat */}
+            {messages.length > 0 && (
+              <div className="mt-3 flex justify-center items-center gap-2 font-body text-sm text-phoenician-sand/60">
+                <span>Export:</span>
+                {([['markdown', 'Markdown'], ['pdf', 'PDF'], ['json', 'JSON']] as const).map(([format, label]) => (
+                  <button
+                    key={format}
+                    onClick={() => exportChat(format)}
+                    disabled={isLoading}
+                    className="px-2 py-0.5 rounded border border-phoenician-bronze/40 hover:border-phoenician-gold
+                             hover:text-phoenician-cream transition-colors disabled:opacity-50"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         </motion.header>
 
@@ -590,16 +2366,110 @@ export default function Home() {
                   animate={{ opacity: 1, y: 0, scale: 1 }}
                   exit={{ opacity: 0, y: -20, scale: 0.95 }}
                   transition={{ duration: 0.3, delay: index * 0.05 }}
+                  id={`message-${message.id}`}
                   className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
                 >
-                  <div className={`max-w-[80%] ${message.role === 'user' ? 'message-user' : 'message-assistant'}`}>
+                  <div className={`max-w-[80%] transition-shadow ${message.role === 'user' ? 'message-user' : 'message-assistant'}
+                                 ${message.id === jumpTarget ? 'ring-2 ring-phoenician-gold' : ''}`}>
                     <div className="p-5">
-                      <p className="font-body text-lg leading-relaxed text-phoenician-cream whitespace-pre-wrap">
-                        {parseMarkdown(message.content)}
-                      </p>
+                      {message.role === 'user' && editingMessage?.id === message.id ? (
+                        <form onSubmit={(e) => { e.preventDefault(); submitEdit(index) }} className="space-y-2">
+                          <textarea
+                            autoFocus
+                            value={editingMessage.text}
+                            onChange={(e) => setEditingMessage({ id: message.id, text: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Escape') setEditingMessage(null)
+                              if (e.key === 'Enter' && !e.shiftKey) {
+                                e.preventDefault()
+                                submitEdit(index)
+                              }
+                            }}
+                            rows={Math.min(8, editingMessage.text.split('\n').length + 1)}
+                            className="w-full min-w-[16rem] p-2 rounded-lg bg-phoenician-deep/60 border border-phoenician-gold/50
+                                     text-phoenician-cream font-body text-lg focus:outline-none resize-y"
+                          />
+                          <div className="flex justify-end gap-2 font-body text-sm">
+                            <button
+                              type="button"
+                              onClick={() => setEditingMessage(null)}
+                              className="px-2 py-0.5 text-phoenician-sand/80 hover:text-phoenician-cream transition-colors"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              type="submit"
+                              disabled={isLoading || !editingMessage.text.trim()}
+                              className="px-2 py-0.5 rounded border border-phoenician-cream/60 text-phoenician-cream
+                                       hover:bg-phoenician-cream/10 transition-colors disabled:opacity-50"
+                            >
+                              Ask on a new branch
+                            </button>
+                          </div>
+                        </form>
+                      ) : message.role === 'user' ? (
+                        <>
+                          <p dir="auto" className="font-body text-lg leading-relaxed text-phoenician-cream whitespace-pre-wrap">
+                            {message.content}
+                          </p>
+                          {/* Edit the question, and flip between the branches that forked here */}
+                          <div className="flex justify-end items-center gap-2 mt-1 -mb-2 font-body text-xs text-phoenician-cream/70">
+                            {branchSiblings[index] && (
+                              <span className="flex items-center gap-1">
+                                <button
+                                  type="button"
+                                  onClick={() => flipBranch(index, -1)}
+                                  disabled={isLoading || branchSiblings[index]!.position === 0}
+                                  className="px-1 hover:text-phoenician-cream disabled:opacity-40"
+                                  title="Previous branch"
+                                >
+                                  ‹
+                                </button>
+                                {branchSiblings[index]!.position + 1} / {branchSiblings[index]!.count}
+                                <button
+                                  type="button"
+                                  onClick={() => flipBranch(index, 1)}
+                                  disabled={isLoading || branchSiblings[index]!.position === branchSiblings[index]!.count - 1}
+                                  className="px-1 hover:text-phoenician-cream disabled:opacity-40"
+                                  title="Next branch"
+                                >
+                                  ›
+                                </button>
+                              </span>
+                            )}
+                            {!isLoading && (
+                              <button
+                                type="button"
+                                onClick={() => setEditingMessage({ id: message.id, text: message.content })}
+                                className="hover:text-phoenician-cream transition-colors"
+                                title="Edit and ask again on a new branch"
+                              >
+                                ✎ Edit
+                              </button>
+                            )}
+                          </div>
+                        </>
+                      ) : (
+                        <div dir="auto" className="markdown font-body text-lg leading-relaxed text-phoenician-cream">
+                          {renderAnswer(message.content, message.citations, index => showCitation(message.id, index))}
+                        </div>
+                      )}
                       
-                      {/* Source references */}
-                      {message.sources && message.sources.length > 0 && (
+                      {/* Footnotes */}
+                      {message.citations && message.citations.length > 0 && (
+                        <div className="mt-3 pt-3 border-t border-white/10">
+                          <p className="text-xs text-phoenician-gold/80 font-body mb-1">📚 Sources</p>
+                          <CitationList
+                            messageId={message.id}
+                            citations={message.citations}
+                            expanded={expandedCitation?.messageId === message.id ? expandedCitation.index : null}
+                            onToggle={index => toggleCitation(message.id, index)}
+                          />
+                        </div>
+                      )}
+
+                      {/* Source references (chats saved before footnotes) */}
+                      {!message.citations?.length && message.sources && message.sources.length > 0 && (
                         <div className="mt-3 pt-3 border-t border-white/10">
                           <p className="text-xs text-phoenician-gold/80 font-body">
                             📚 Sources: {message.sources.join(', ')}
@@ -617,27 +2487,44 @@ export default function Home() {
                         </div>
                       )}
                       
-                      <p className="text-xs text-phoenician-sand/60 mt-2 font-body">
-                        {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                      </p>
+                      <div className="flex items-center justify-between gap-3 mt-2 text-xs font-body">
+                        <p className="text-phoenician-sand/60">
+                          {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          {message.status === 'stopped' && ' · Stopped'}
+                          {message.status === 'failed' && ' · Didn\'t finish'}
+                        </p>
+                        {message.role === 'assistant' && index === messages.length - 1 && !isLoading && (
+                          <button
+                            type="button"
+                            onClick={regenerate}
+                            className="text-phoenician-gold/80 hover:text-phoenician-gold transition-colors"
+                            title={message.status ? 'Ask the question again' : 'Ask again, keeping this answer on its own branch'}
+                          >
+                            ↻ {message.status ? 'Retry' : 'Regenerate'}
+                          </button>
+                        )}
+                      </div>
                     </div>
                   </div>
                 </motion.div>
               ))}
             </AnimatePresence>
 
-            {/* Loading indicator */}
-            {isLoading && (
+            {/* Loading indicator (until the first words of the answer arrive) */}
+            {isLoading && messages[messages.length - 1]?.role !== 'assistant' && (
               <motion.div
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
                 className="flex justify-start"
               >
                 <div className="message-assistant p-5">
-                  <div className="flex gap-2">
+                  <div className="flex gap-2 items-center">
                     <span className="loading-dot w-2 h-2 bg-phoenician-gold rounded-full"></span>
                     <span className="loading-dot w-2 h-2 bg-phoenician-gold rounded-full"></span>
                     <span className="loading-dot w-2 h-2 bg-phoenician-gold rounded-full"></span>
+                    {activity && (
+                      <span className="ml-2 text-sm text-phoenician-sand/70 font-body">{activity}</span>
+                    )}
                   </div>
                 </div>
               </motion.div>
@@ -654,31 +2541,222 @@ export default function Home() {
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 0.5, delay: 0.3 }}
         >
+          <AnimatePresence>
+            {notice && (
+              <motion.button
+                type="button"
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: 10 }}
+                onClick={() => setNotice(null)}
+                className="max-w-4xl mx-auto mb-3 w-full flex items-start gap-3 p-3 rounded-xl text-left
+                         bg-phoenician-sea/80 border border-phoenician-gold/50 text-phoenician-cream font-body"
+                title="Dismiss"
+              >
+                <span className="flex-1">{notice}</span>
+                <span className="text-phoenician-sand/70">✕</span>
+              </motion.button>
+            )}
+          </AnimatePresence>
+
+          {/* What has been heard so far, until the transcript replaces it */}
+          {(isRecording || isTranscribing) && interimText && (
+            <p
+              dir="auto"
+              className="max-w-4xl mx-auto mb-3 px-5 font-body text-lg italic text-phoenician-sand/80"
+              aria-live="polite"
+            >
+              {interimText}{isTranscribing && ' …'}
+            </p>
+          )}
+
+          {/* Check a recording's transcript before sending it */}
+          {review && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="max-w-4xl mx-auto mb-3 p-3 rounded-xl bg-phoenician-navy/90 border border-phoenician-bronze/50
+                       font-body text-phoenician-cream"
+            >
+              <p className="text-sm text-phoenician-sand/80 mb-2">
+                Check what was heard before sending. Underlined words may be misheard; click a line to correct it
+                {review.audioUrl ? ', or ▶ to hear it again.' : '.'}
+              </p>
+              <audio
+                ref={reviewAudioRef}
+                src={review.audioUrl || undefined}
+                onTimeUpdate={(e) => {
+                  if (playingSegment !== null && e.currentTarget.currentTime >= review.segments[playingSegment].end) {
+                    e.currentTarget.pause()
+                  }
+                }}
+                onPause={() => setPlayingSegment(null)}
+                hidden
+              />
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {review.segments.map((segment, index) => (
+                  <div key={index} className="flex items-start gap-2">
+                    {review.audioUrl && (
+                      <button
+                        type="button"
+                        onClick={() => playSegment(index)}
+                        className="flex-shrink-0 w-7 h-7 mt-0.5 rounded-full border border-phoenician-bronze/50 text-xs
+                                 text-phoenician-gold hover:border-phoenician-gold transition-colors"
+                        title={playingSegment === index ? 'Stop' : 'Play this part of the recording'}
+                      >
+                        {playingSegment === index ? '■' : '▶'}
+                      </button>
+                    )}
+                    {editingSegment === index ? (
+                      <input
+                        autoFocus
+                        dir="auto"
+                        value={review.edits[index] ?? segment.text}
+                        onChange={(e) => editSegment(index, e.target.value)}
+                        onBlur={() => setEditingSegment(null)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' || e.key === 'Escape') {
+                            e.preventDefault()
+                            setEditingSegment(null)
+                          }
+                        }}
+                        className="flex-1 px-2 py-0.5 rounded bg-phoenician-deep/60 border border-phoenician-gold/50
+                                 text-lg focus:outline-none"
+                      />
+                    ) : (
+                      <button
+                        type="button"
+                        dir="auto"
+                        onClick={() => setEditingSegment(index)}
+                        className="flex-1 text-left text-lg px-2 py-0.5 rounded hover:bg-phoenician-sea/30 transition-colors"
+                        title="Correct this line"
+                      >
+                        {/* Corrected lines have been checked, so they lose their highlights */}
+                        {review.edits[index] !== undefined
+                          ? review.edits[index]
+                          : segmentTokens(segment).map((token, i) => (
+                              <span key={i}>
+                                {i > 0 && ' '}
+                                <span
+                                  className={isLowConfidence(token.confidence)
+                                    ? 'underline decoration-dotted decoration-phoenician-terracotta bg-phoenician-terracotta/20 rounded'
+                                    : ''}
+                                  title={isLowConfidence(token.confidence) ? 'Possibly misheard' : undefined}
+                                >
+                                  {token.text}
+                                </span>
+                              </span>
+                            ))}
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end gap-2 mt-3 text-sm">
+                <button
+                  type="button"
+                  onClick={() => finishReview('discard')}
+                  className="px-3 py-1 text-phoenician-sand/80 hover:text-phoenician-cream transition-colors"
+                >
+                  Discard
+                </button>
+                <button
+                  type="button"
+                  onClick={() => finishReview('edit')}
+                  className="px-3 py-1 rounded border border-phoenician-bronze/50 hover:border-phoenician-gold transition-colors"
+                >
+                  Edit as text
+                </button>
+                <button
+                  type="button"
+                  onClick={() => finishReview('send')}
+                  disabled={isLoading}
+                  className="px-3 py-1 rounded btn-phoenician text-phoenician-cream disabled:opacity-50"
+                >
+                  Send
+                </button>
+              </div>
+            </motion.div>
+          )}
+
           <form onSubmit={handleSubmit} className="max-w-4xl mx-auto">
             <div className="flex gap-3 items-end">
+              {/* Hands-free Conversation Button */}
+              <motion.button
+                type="button"
+                onClick={toggleConversation}
+                whileTap={{ scale: 0.95 }}
+                title={conversationMode ? 'End hands-free conversation' : 'Start hands-free conversation'}
+                className={`flex-shrink-0 w-14 h-14 rounded-full flex items-center justify-center transition-all duration-300 ${
+                  conversationMode
+                    ? 'bg-phoenician-sea border-2 border-phoenician-gold gold-glow text-phoenician-gold'
+                    : 'bg-phoenician-navy hover:bg-phoenician-sea border-2 border-phoenician-bronze text-phoenician-cream'
+                }`}
+              >
+                <WaveformIcon isActive={conversationMode} />
+              </motion.button>
+
               {/* Voice Button */}
               <motion.button
                 type="button"
                 onClick={toggleRecording}
-                disabled={isTranscribing}
+                disabled={isTranscribing || conversationMode}
                 whileTap={{ scale: 0.95 }}
                 className={`flex-shrink-0 w-14 h-14 rounded-full flex items-center justify-center transition-all duration-300 ${
                   isRecording
                     ? 'bg-phoenician-terracotta recording-active gold-glow'
                     : isTranscribing
                     ? 'bg-phoenician-wine/50 cursor-wait'
+                    : conversationMode
+                    ? 'bg-phoenician-navy/50 border-2 border-phoenician-bronze/30 opacity-50 cursor-not-allowed'
                     : 'bg-phoenician-navy hover:bg-phoenician-sea border-2 border-phoenician-bronze'
                 }`}
               >
                 <MicrophoneIcon isRecording={isRecording || isTranscribing} />
               </motion.button>
 
+              {/* Voice Memo Upload: ask with a recording made elsewhere */}
+              {sttProvider !== 'browser' && (
+                <>
+                  <motion.button
+                    type="button"
+                    onClick={() => memoInputRef.current?.click()}
+                    disabled={isRecording || isTranscribing || conversationMode}
+                    whileTap={{ scale: 0.95 }}
+                    title="Ask with a voice memo (M4A, MP3, WAV…)"
+                    className="flex-shrink-0 w-10 h-10 mb-2 rounded-full flex items-center justify-center
+                             bg-phoenician-navy hover:bg-phoenician-sea border border-phoenician-bronze/50
+                             text-phoenician-sand/80 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <svg viewBox="0 0 24 24" className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M12 16V4m0 0l-4 4m4-4l4 4M4 20h16" />
+                    </svg>
+                  </motion.button>
+                  <input
+                    ref={memoInputRef}
+                    type="file"
+                    accept={ACCEPTED_AUDIO}
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      e.target.value = ''
+                      if (file) uploadVoiceMemo(file)
+                    }}
+                  />
+                </>
+              )}
+
               {/* Text Input */}
               <div className="flex-1 relative">
                 <input
                   type="text"
                   value={inputText}
-                  onChange={(e) => setInputText(e.target.value)}
+                  onChange={(e) => {
+                    setInputText(e.target.value)
+                    // Cleared the transcription to type something else
+                    if (!e.target.value) spokenLanguageRef.current = null
+                  }}
+                  dir="auto"
                   placeholder="Ask me anything..."
                   className="w-full px-5 py-4 rounded-2xl bg-phoenician-navy/80 border-2 border-phoenician-bronze/50 
                            text-phoenician-cream placeholder-phoenician-sand/50 font-body text-lg
@@ -688,20 +2766,36 @@ export default function Home() {
                 />
               </div>
 
-              {/* Send Button */}
-              <motion.button
-                type="submit"
-                disabled={!inputText.trim() || isLoading}
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-                className="flex-shrink-0 w-14 h-14 rounded-full btn-phoenician flex items-center justify-center
-                         disabled:opacity-50 disabled:cursor-not-allowed text-phoenician-cream"
-              >
-                <svg viewBox="0 0 24 24" className="w-6 h-6" fill="none" stroke="currentColor" strokeWidth="2">
-                  <path d="M22 2L11 13" />
-                  <path d="M22 2L15 22L11 13L2 9L22 2Z" />
-                </svg>
-              </motion.button>
+              {/* Send Button, or Stop while an answer streams in */}
+              {isLoading ? (
+                <motion.button
+                  type="button"
+                  onClick={stopAnswer}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  title="Stop the answer"
+                  className="flex-shrink-0 w-14 h-14 rounded-full btn-phoenician flex items-center justify-center
+                           text-phoenician-cream"
+                >
+                  <svg viewBox="0 0 24 24" className="w-5 h-5" fill="currentColor">
+                    <rect x="6" y="6" width="12" height="12" rx="1" />
+                  </svg>
+                </motion.button>
+              ) : (
+                <motion.button
+                  type="submit"
+                  disabled={!inputText.trim()}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  className="flex-shrink-0 w-14 h-14 rounded-full btn-phoenician flex items-center justify-center
+                           disabled:opacity-50 disabled:cursor-not-allowed text-phoenician-cream"
+                >
+                  <svg viewBox="0 0 24 24" className="w-6 h-6" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M22 2L11 13" />
+                    <path d="M22 2L15 22L11 13L2 9L22 2Z" />
+                  </svg>
+                </motion.button>
+              )}
 
               {/* Stop Speaking Button */}
               {isSpeaking && (
@@ -722,8 +2816,27 @@ export default function Home() {
               )}
             </div>
 
+            {/* Hands-free conversation status */}
+            {conversationMode && (
+              <motion.p
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="text-center text-phoenician-gold font-body mt-3"
+              >
+                {isRecording
+                  ? '● Listening... (pause to send)'
+                  : isTranscribing
+                  ? '⏳ Transcribing...'
+                  : isSpeaking
+                  ? '🔊 Philo is speaking... (talk to interrupt)'
+                  : isLoading
+                  ? '📜 Philo is thinking...'
+                  : '🎙 Hands-free mode: just start talking'}
+              </motion.p>
+            )}
+
             {/* Recording/Transcribing indicator */}
-            {(isRecording || isTranscribing) && (
+            {!conversationMode && (isRecording || isTranscribing) && (
               <motion.p
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
@@ -0,0 +1,114 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { describeUsageLimit, isUsageLimitBody } from '@/lib/usage/errors'
+
+// Only follow redirects back into this site. The URL is resolved the way
+// the browser will resolve it, so tricks like /\evil.com (read as
+// //evil.com) land on another origin and are refused.
+function getNextPath(): string {
+  const next = new URLSearchParams(window.location.search).get('next')
+  if (!next) return '/'
+  try {
+    const url = new URL(next, window.location.origin)
+    return url.origin === window.location.origin ? url.pathname + url.search + url.hash : '/'
+  } catch {
+    return '/'
+  }
+}
+
+export default function SignInPage() {
+  const [email, setEmail] = useState('')
+  const [code, setCode] = useState('')
+  const [requiresCode, setRequiresCode] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/auth/signin')
+      .then(response => response.json())
+      .then(data => setRequiresCode(data.requiresCode !== false))
+      .catch(e => console.error('Failed to load sign-in options:', e))
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/signin', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, code }),
+      })
+      const data = await response.json()
+      if (isUsageLimitBody(data)) throw new Error(describeUsageLimit(data))
+      if (!response.ok) throw new Error(data.error || 'Sign-in failed')
+
+      window.location.href = getNextPath()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Sign-in failed')
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <main className="min-h-screen wave-pattern flex items-center justify-center px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="scroll-paper rounded-2xl p-8 w-full max-w-sm gold-border font-body space-y-5"
+      >
+        <div className="text-center">
+          <h1 className="font-display text-3xl font-bold tracking-wider">
+            <span className="text-phoenician-terracotta">P</span>HILO
+          </h1>
+          <p className="text-lg opacity-80">Sign in to continue</p>
+        </div>
+
+        <label className="block">
+          <span className="text-sm opacity-70">Email</span>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            autoFocus
+            autoComplete="email"
+            className="mt-1 w-full px-4 py-3 rounded-xl bg-white/60 border border-phoenician-bronze/50
+                     focus:outline-none focus:border-phoenician-terracotta text-lg"
+          />
+        </label>
+
+        {requiresCode && (
+          <label className="block">
+            <span className="text-sm opacity-70">Access code</span>
+            <input
+              type="password"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+              autoComplete="current-password"
+              className="mt-1 w-full px-4 py-3 rounded-xl bg-white/60 border border-phoenician-bronze/50
+                       focus:outline-none focus:border-phoenician-terracotta text-lg"
+            />
+          </label>
+        )}
+
+        {error && (
+          <p className="p-3 rounded-xl bg-phoenician-wine/20 border border-phoenician-wine text-phoenician-wine">
+            {error}
+          </p>
+        )}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="btn-phoenician w-full py-3 rounded-xl text-phoenician-cream text-lg disabled:opacity-60"
+        >
+          {isSubmitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </main>
+  )
+}
@@ -0,0 +1,310 @@
+/**
+ * Streaming Audio Player (client-side)
+ *
+ * Plays audio returned by /api/tts. A playback session can be fed several
+ * streams in order (one per sentence) and plays them back to back with no
+ * gap between them:
+ * - With Media Source Extensions, every stream is appended to the same
+ *   SourceBuffer of a single <audio> element as its chunks arrive.
+ * - Otherwise each stream is decoded with the Web Audio API and scheduled
+ *   to start exactly when the previous one ends.
+ */
+
+type MediaSourceConstructor = typeof MediaSource
+
+export type AudioSource =
+  | ReadableStream<Uint8Array>
+  | Promise<ReadableStream<Uint8Array> | null>
+
+interface PlaybackSession {
+  enqueue(source: AudioSource): void
+  end(): Promise<void>
+  stop(): void
+}
+
+function getMediaSource(): MediaSourceConstructor | null {
+  if (typeof window === 'undefined') return null
+  // Safari on iOS 17.1+ only exposes ManagedMediaSource
+  const w = window as unknown as {
+    MediaSource?: MediaSourceConstructor
+    ManagedMediaSource?: MediaSourceConstructor
+  }
+  return w.MediaSource || w.ManagedMediaSource || null
+}
+
+function waitForEvent(target: EventTarget, event: string): Promise<void> {
+  return new Promise(resolve => {
+    target.addEventListener(event, () => resolve(), { once: true })
+  })
+}
+
+function appendToBuffer(sourceBuffer: SourceBuffer, chunk: Uint8Array): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onUpdateEnd = () => {
+      sourceBuffer.removeEventListener('error', onError)
+      resolve()
+    }
+    const onError = () => {
+      sourceBuffer.removeEventListener('updateend', onUpdateEnd)
+      reject(new Error('Failed to append audio chunk'))
+    }
+    sourceBuffer.addEventListener('updateend', onUpdateEnd, { once: true })
+    sourceBuffer.addEventListener('error', onError, { once: true })
+    sourceBuffer.appendBuffer(chunk as BufferSource)
+  })
+}
+
+/**
+ * Appends every stream to one SourceBuffer so the <audio> element sees a
+ * single continuous track
+ */
+class MediaSourceSession implements PlaybackSession {
+  private mediaSource: MediaSource
+  private objectUrl: string
+  private sourceBuffer: Promise<SourceBuffer>
+  private pump: Promise<void> = Promise.resolve()
+  private reader: ReadableStreamDefaultReader<Uint8Array> | null = null
+  private stopped = false
+  private started = false
+  private finished: Promise<void>
+  private finish: () => void = () => {}
+
+  constructor(
+    private audio: HTMLAudioElement,
+    MediaSourceImpl: MediaSourceConstructor,
+    contentType: string,
+    private onStart: () => void
+  ) {
+    this.mediaSource = new MediaSourceImpl()
+    this.objectUrl = URL.createObjectURL(this.mediaSource)
+    this.audio.src = this.objectUrl
+
+    this.sourceBuffer = waitForEvent(this.mediaSource, 'sourceopen').then(() => {
+      const sourceBuffer = this.mediaSource.addSourceBuffer(contentType)
+      // Each sentence's timestamps start at zero; sequence mode lays them end to end
+      sourceBuffer.mode = 'sequence'
+      return sourceBuffer
+    })
+
+    this.finished = new Promise(resolve => {
+      this.finish = () => {
+        this.audio.removeEventListener('ended', this.finish)
+        this.audio.removeEventListener('error', this.finish)
+        URL.revokeObjectURL(this.objectUrl)
+        resolve()
+      }
+    })
+    this.audio.addEventListener('ended', this.finish)
+    this.audio.addEventListener('error', this.finish)
+  }
+
+  enqueue(source: AudioSource) {
+    this.pump = this.pump.then(() => this.append(source)).catch(error => {
+      // A failed sentence shouldn't silence the rest of the answer
+      if (!this.stopped) console.error('Audio segment failed:', error)
+    })
+  }
+
+  async end(): Promise<void> {
+    await this.pump
+    if (this.stopped) return
+    if (!this.started) {
+      this.finish()
+      return
+    }
+    if (this.mediaSource.readyState === 'open') {
+      this.mediaSource.endOfStream()
+    }
+    await this.finished
+  }
+
+  stop() {
+    this.stopped = true
+    this.reader?.cancel().catch(() => {})
+    this.reader = null
+    this.audio.pause()
+    this.audio.removeAttribute('src')
+    this.audio.load()
+    this.finish()
+  }
+
+  private async append(source: AudioSource) {
+    const body = await source
+    if (!body || this.stopped) return
+
+    const sourceBuffer = await this.sourceBuffer
+    this.reader = body.getReader()
+
+    try {
+      while (!this.stopped) {
+        const { done, value } = await this.reader.read()
+        if (done || this.stopped) break
+        await appendToBuffer(sourceBuffer, value)
+        if (!this.started) {
+          this.started = true
+          this.onStart()
+          this.audio.play().catch(error => console.error('Audio playback failed:', error))
+        }
+      }
+    } catch (error) {
+      // Stopping mid-append detaches the source buffer; only surface real failures
+      if (!this.stopped) throw error
+    } finally {
+      this.reader = null
+    }
+  }
+}
+
+/**
+ * Decodes each stream fully and schedules it on the AudioContext clock
+ */
+class WebAudioSession implements PlaybackSession {
+  private pump: Promise<void> = Promise.resolve()
+  private nodes: AudioBufferSourceNode[] = []
+  private nextStartTime = 0
+  private stopped = false
+
+  constructor(
+    private context: AudioContext,
+    private onStart: () => void
+  ) {}
+
+  enqueue(source: AudioSource) {
+    this.pump = this.pump.then(() => this.schedule(source)).catch(error => {
+      if (!this.stopped) console.error('Audio segment failed:', error)
+    })
+  }
+
+  async end(): Promise<void> {
+    await this.pump
+    const last = this.nodes[this.nodes.length - 1]
+    if (!last || this.stopped) return
+    await new Promise<void>(resolve => {
+      last.addEventListener('ended', () => resolve(), { once: true })
+    })
+  }
+
+  stop() {
+    this.stopped = true
+    for (const node of this.nodes) {
+      try {
+        node.stop()
+      } catch {
+        // Already stopped
+      }
+    }
+  }
+
+  private async schedule(source: AudioSource) {
+    const body = await source
+    if (!body || this.stopped) return
+
+    const bytes = await new Response(body).arrayBuffer()
+    const buffer = await this.context.decodeAudioData(bytes)
+    if (this.stopped) return
+
+    const node = this.context.createBufferSource()
+    node.buffer = buffer
+    node.connect(this.context.destination)
+
+    const startAt = Math.max(this.context.currentTime, this.nextStartTime)
+    node.start(startAt)
+    this.nextStartTime = startAt + buffer.duration
+
+    if (this.nodes.length === 0) this.onStart()
+    this.nodes.push(node)
+  }
+}
+
+export class StreamingAudioPlayer {
+  private audio: HTMLAudioElement
+  private context: AudioContext | null = null
+  private session: PlaybackSession | null = null
+
+  onStart: (() => void) | null = null
+  onEnd: (() => void) | null = null
+
+  constructor() {
+    this.audio = new Audio()
+    this.audio.preload = 'auto'
+    // Required for ManagedMediaSource playback on iOS
+    ;(this.audio as HTMLAudioElement & { disableRemotePlayback: boolean }).disableRemotePlayback = true
+  }
+
+  /**
+   * Allow audio to start later without a user gesture. Call this from a
+   * click or key handler before the first answer is spoken.
+   */
+  unlock() {
+    if (getMediaSource()) return
+    const context = this.getContext()
+    if (context.state === 'suspended') context.resume().catch(() => {})
+  }
+
+  /**
+   * Start a new playback session, stopping any current one
+   * @param contentType - MIME type of the audio that will be queued
+   */
+  begin(contentType = 'audio/mpeg') {
+    this.stop()
+
+    const MediaSourceImpl = getMediaSource()
+    const onStart = () => this.onStart?.()
+    this.session = MediaSourceImpl && MediaSourceImpl.isTypeSupported(contentType)
+      ? new MediaSourceSession(this.audio, MediaSourceImpl, contentType, onStart)
+      : new WebAudioSession(this.getContext(), onStart)
+  }
+
+  /**
+   * Queue audio to play after everything queued before it
+   * @param source - A streamed response body, or a promise for one
+   */
+  enqueue(source: AudioSource) {
+    if (!this.session) this.begin()
+    this.session!.enqueue(source)
+  }
+
+  /**
+   * Signal that nothing more will be queued, resolving once playback ends
+   */
+  async end(): Promise<void> {
+    const session = this.session
+    if (!session) return
+    await session.end()
+    if (this.session === session) {
+      this.session = null
+      this.onEnd?.()
+    }
+  }
+
+  /**
+   * Play a single audio stream, resolving when playback finishes or is stopped
+   * @param body - The streamed response body from /api/tts
+   * @param contentType - MIME type of the audio (e.g. audio/mpeg)
+   */
+  play(body: ReadableStream<Uint8Array>, contentType: string): Promise<void> {
+    this.begin(contentType)
+    this.enqueue(body)
+    return this.end()
+  }
+
+  /**
+   * Stop playback and cancel any in-flight download
+   */
+  stop() {
+    const session = this.session
+    if (!session) return
+    this.session = null
+    session.stop()
+    this.onEnd?.()
+  }
+
+  private getContext(): AudioContext {
+    if (!this.context) {
+      const w = window as unknown as { webkitAudioContext?: typeof AudioContext }
+      const AudioContextImpl = window.AudioContext || w.webkitAudioContext
+      this.context = new AudioContextImpl()
+    }
+    return this.context
+  }
+}
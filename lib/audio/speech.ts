@@ -0,0 +1,81 @@
+/**
+ * Incremental Speech Queue (client-side)
+ *
+ * Feeds an answer to the speech pipeline while it is still streaming in:
+ * text is split into sentences, each sentence is sent to the TTS endpoint
+ * as soon as it is complete, and the resulting audio is queued on the
+ * player so the sentences play back to back in order.
+ */
+
+import { StreamingAudioPlayer } from './player'
+import { SentenceSplitter, cleanForSpeech } from '@/lib/tts/sentences'
+
+export type SpeechSynthesizer = (text: string) => Promise<ReadableStream<Uint8Array> | null>
+
+export class SpeechQueue {
+  private splitter = new SentenceSplitter()
+  private active = false
+
+  constructor(
+    private player: StreamingAudioPlayer,
+    private synthesize: SpeechSynthesizer
+  ) {}
+
+  /**
+   * Start speaking a new answer, interrupting whatever is playing
+   */
+  begin() {
+    this.splitter = new SentenceSplitter()
+    this.player.begin('audio/mpeg')
+    this.active = true
+  }
+
+  /**
+   * Add the next piece of the streamed answer
+   */
+  push(delta: string) {
+    if (!this.active) return
+    for (const sentence of this.splitter.push(delta)) {
+      this.speakSentence(sentence)
+    }
+  }
+
+  /**
+   * Speak any trailing text and resolve once playback has finished
+   */
+  async finish(): Promise<void> {
+    if (!this.active) return
+    const rest = this.splitter.flush()
+    if (rest) this.speakSentence(rest)
+    this.active = false
+    await this.player.end()
+  }
+
+  /**
+   * Stop speaking and drop anything not yet played
+   */
+  cancel() {
+    this.active = false
+    this.splitter = new SentenceSplitter()
+    this.player.stop()
+  }
+
+  /**
+   * Speak a complete text in one go
+   */
+  speak(text: string): Promise<void> {
+    this.begin()
+    this.push(text)
+    return this.finish()
+  }
+
+  private speakSentence(sentence: string) {
+    const text = cleanForSpeech(sentence)
+    if (!text) return
+    // Start synthesis right away; the player keeps the audio in order
+    this.player.enqueue(this.synthesize(text).catch(error => {
+      console.error('TTS error:', error)
+      return null
+    }))
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Timed Transcripts
+ *
+ * /api/transcribe answers with the text of a recording split into
+ * segments (roughly a phrase each) and words, with where each one starts
+ * and ends in the recording and how sure the recognizer was of it. The
+ * page shows the transcript for review before it is sent, highlighting
+ * what was probably misheard and playing back a segment on request, so
+ * names and titles can be fixed before they reach the library search.
+ *
+ * Whisper's API scores segments, not words; words without a score of their
+ * own are as confident as their segment. Shared by the page and the API
+ * routes, so it must not import anything server-only.
+ */
+
+export interface TranscriptWord {
+  text: string
+  // Seconds from the start of the recording
+  start: number
+  end: number
+  // 0 to 1, when the recognizer scores words
+  confidence?: number
+}
+
+export interface TranscriptSegment {
+  text: string
+  start: number
+  end: number
+  // 0 to 1
+  confidence: number
+  words: TranscriptWord[]
+}
+
+export interface Transcript {
+  text: string
+  // ISO 639-1 code, when known and supported (see lib/language)
+  language: string | null
+  // Length of the recording in seconds
+  duration: number
+  segments: TranscriptSegment[]
+}
+
+// A piece of a segment's text as shown for review
+export interface TranscriptToken {
+  text: string
+  confidence: number
+}
+
+// Below this, a word or segment is highlighted as probably misheard
+export const LOW_CONFIDENCE = 0.5
+
+export function isLowConfidence(confidence: number): boolean {
+  return confidence < LOW_CONFIDENCE
+}
+
+/**
+ * Put words with the segment they were spoken in
+ */
+export function groupWords<S extends { start: number; end: number }>(
+  segments: S[],
+  words: TranscriptWord[]
+): Array<S & { words: TranscriptWord[] }> {
+  return segments.map((segment, i) => {
+    const last = i === segments.length - 1
+    return {
+      ...segment,
+      words: words.filter(word => word.start >= segment.start && (last || word.start < segment.end)),
+    }
+  })
+}
+
+/**
+ * Split a segment's text into tokens with a confidence each. Words carry
+ * timings but often not punctuation, so the text is what's shown; when it
+ * has as many tokens as there are words, each takes its word's score.
+ */
+export function segmentTokens(segment: TranscriptSegment): TranscriptToken[] {
+  const tokens = segment.text.trim().split(/\s+/).filter(Boolean)
+  const scored = tokens.length === segment.words.length
+  return tokens.map((text, i) => ({
+    text,
+    confidence: (scored ? segment.words[i].confidence : undefined) ?? segment.confidence,
+  }))
+}
+
+/**
+ * The text of a transcript from its (possibly edited) segments
+ */
+export function transcriptText(segments: Array<{ text: string }>): string {
+  return segments
+    .map(segment => segment.text.trim())
+    .filter(Boolean)
+    .join(' ')
+}
@@ -0,0 +1,141 @@
+/**
+ * Energy-based Voice Activity Detection (client-side)
+ *
+ * Watches a microphone stream through a Web Audio AnalyserNode and reports
+ * when the user starts and stops talking. A frame counts as speech when its
+ * RMS level clears both a fixed minimum and a multiple of the background
+ * noise floor, which is learned continuously while nobody is speaking.
+ */
+
+export interface VoiceActivityOptions {
+  // RMS level (0-1) below which nothing counts as speech
+  minLevel?: number
+  // How many times louder than the background noise speech must be
+  noiseRatio?: number
+  // Sustained speech needed before onSpeechStart fires (filters out clicks)
+  speechStartMs?: number
+  // Silence needed before onSpeechEnd fires
+  silenceMs?: number
+  // Utterances are cut off after this long even if the room never goes quiet
+  maxSpeechMs?: number
+  onSpeechStart?: () => void
+  onSpeechEnd?: () => void
+}
+
+// How often the microphone level is sampled
+const FRAME_MS = 30
+
+export class VoiceActivityDetector {
+  minLevel: number
+
+  private context: AudioContext
+  private source: MediaStreamAudioSourceNode
+  private analyser: AnalyserNode
+  private samples: Float32Array<ArrayBuffer>
+  private timer: ReturnType<typeof setInterval> | null = null
+  private noiseFloor = 0.005
+  private speaking = false
+  private speechStartedAt = 0
+  private aboveSince: number | null = null
+  private belowSince: number | null = null
+  private settings: Required<Omit<VoiceActivityOptions, 'onSpeechStart' | 'onSpeechEnd' | 'minLevel'>>
+  private onSpeechStart?: () => void
+  private onSpeechEnd?: () => void
+
+  constructor(stream: MediaStream, options: VoiceActivityOptions = {}) {
+    const w = window as unknown as { webkitAudioContext?: typeof AudioContext }
+    const AudioContextImpl = window.AudioContext || w.webkitAudioContext
+    this.context = new AudioContextImpl()
+    this.source = this.context.createMediaStreamSource(stream)
+    this.analyser = this.context.createAnalyser()
+    this.analyser.fftSize = 1024
+    this.source.connect(this.analyser)
+    this.samples = new Float32Array(this.analyser.fftSize)
+
+    this.minLevel = options.minLevel ?? 0.015
+    this.settings = {
+      noiseRatio: options.noiseRatio ?? 3,
+      speechStartMs: options.speechStartMs ?? 120,
+      silenceMs: options.silenceMs ?? 1200,
+      maxSpeechMs: options.maxSpeechMs ?? 30000,
+    }
+    this.onSpeechStart = options.onSpeechStart
+    this.onSpeechEnd = options.onSpeechEnd
+  }
+
+  /**
+   * Whether the user is currently talking
+   */
+  get isSpeaking(): boolean {
+    return this.speaking
+  }
+
+  start() {
+    if (this.timer) return
+    this.context.resume().catch(() => {})
+    this.timer = setInterval(() => this.tick(), FRAME_MS)
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.speaking = false
+    this.aboveSince = null
+    this.belowSince = null
+  }
+
+  /**
+   * Stop listening and release the audio graph (the stream itself is left open)
+   */
+  destroy() {
+    this.stop()
+    this.source.disconnect()
+    this.context.close().catch(() => {})
+  }
+
+  private tick() {
+    this.analyser.getFloatTimeDomainData(this.samples)
+    let sum = 0
+    for (let i = 0; i < this.samples.length; i++) {
+      sum += this.samples[i] * this.samples[i]
+    }
+    const level = Math.sqrt(sum / this.samples.length)
+    const now = performance.now()
+    const threshold = Math.max(this.minLevel, this.noiseFloor * this.settings.noiseRatio)
+
+    if (level >= threshold) {
+      this.belowSince = null
+      if (!this.speaking) {
+        this.aboveSince ??= now
+        if (now - this.aboveSince >= this.settings.speechStartMs) {
+          this.speaking = true
+          this.speechStartedAt = now
+          this.onSpeechStart?.()
+        }
+      } else if (now - this.speechStartedAt >= this.settings.maxSpeechMs) {
+        this.endSpeech()
+      }
+      return
+    }
+
+    this.aboveSince = null
+    if (!this.speaking) {
+      // Only learn the noise floor while nobody is talking
+      this.noiseFloor = this.noiseFloor * 0.95 + level * 0.05
+      return
+    }
+
+    this.belowSince ??= now
+    if (now - this.belowSince >= this.settings.silenceMs) {
+      this.endSpeech()
+    }
+  }
+
+  private endSpeech() {
+    this.speaking = false
+    this.belowSince = null
+    this.onSpeechEnd?.()
+  }
+}
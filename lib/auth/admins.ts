@@ -0,0 +1,21 @@
+/**
+ * Admins
+ *
+ * Only admins may change the libraries everyone searches (the library
+ * API and /admin). They are listed by email in PHILO_ADMIN_EMAILS,
+ * comma-separated; without it nobody is an admin. With AUTH_PROVIDER=local,
+ * which is for offline development only, everyone is.
+ *
+ * Reads nothing but the environment, so middleware (edge runtime) can use it.
+ */
+
+/**
+ * Check whether a signed-in user may manage the libraries
+ */
+export function isAdmin(userId: string): boolean {
+  if (process.env.AUTH_PROVIDER === 'local') return true
+  return (process.env.PHILO_ADMIN_EMAILS || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .some(entry => entry && entry === userId)
+}
@@ -0,0 +1,90 @@
+/**
+ * Authentication
+ *
+ * Decides who may sign in. Currently supports:
+ * - Access codes: each user signs in with their email and their own code
+ *   (PHILO_ACCESS_CODES)
+ * - Shared secret: everyone signs in with their email and one access code
+ *   (PHILO_ACCESS_CODE), optionally limited to PHILO_ALLOWED_EMAILS. The
+ *   email isn't proven, so anyone with the code can sign in as anyone
+ *   allowed and read their chats: only for teams that share everything.
+ * - Local: any email, no code (a stand-in for offline development only)
+ *
+ * The provider is picked with AUTH_PROVIDER ('access-codes' by default).
+ * Signed-in users get a session cookie (see session.ts), checked by
+ * middleware.ts before any API route that costs money or holds chats.
+ *
+ * To add a new provider (e.g. OIDC or magic links):
+ * 1. Create a new file in lib/auth/ (e.g., oidc.ts)
+ * 2. Export a function matching the Authenticator type
+ * 3. Add the provider to the AuthProvider type and providers object below
+ */
+
+export type AuthProvider = 'access-codes' | 'shared-secret' | 'local'
+
+export interface Credentials {
+  // Normalized (trimmed and lowercased) before it reaches a provider
+  email: string
+  code?: string
+}
+
+// Resolves to the user id, or null if the credentials are refused
+export type Authenticator = (credentials: Credentials) => Promise<string | null>
+
+import { authenticateWithAccessCode } from './access-codes'
+import { authenticateWithSharedSecret } from './shared-secret'
+import { authenticateLocally } from './local'
+
+const providers: Record<AuthProvider, Authenticator> = {
+  'access-codes': authenticateWithAccessCode,
+  'shared-secret': authenticateWithSharedSecret,
+  local: authenticateLocally,
+}
+
+/**
+ * Lowercase and trim an email so it can be used as a user id
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+/**
+ * Check whether a value looks like an email address
+ */
+export function isEmail(value: unknown): value is string {
+  return typeof value === 'string' && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim())
+}
+
+/**
+ * Check whether a value names a registered auth provider
+ */
+export function isAuthProvider(value: unknown): value is AuthProvider {
+  return typeof value === 'string' && Object.hasOwn(providers, value)
+}
+
+/**
+ * Get the provider configured through AUTH_PROVIDER (defaults to 'access-codes')
+ */
+export function getDefaultProvider(): AuthProvider {
+  const configured = process.env.AUTH_PROVIDER
+  return isAuthProvider(configured) ? configured : 'access-codes'
+}
+
+/**
+ * Check someone's credentials with the specified provider
+ * @param credentials - The email and, for shared secrets, the access code
+ * @param provider - The auth provider to use (defaults to AUTH_PROVIDER)
+ * @returns The user id, or null if sign-in is refused
+ */
+export async function authenticate(
+  credentials: Credentials,
+  provider: AuthProvider = getDefaultProvider()
+): Promise<string | null> {
+  const authenticator = providers[provider]
+
+  if (!authenticator) {
+    throw new Error(`Unknown auth provider: ${provider}`)
+  }
+
+  return authenticator({ ...credentials, email: normalizeEmail(credentials.email) })
+}
@@ -0,0 +1,17 @@
+/**
+ * Local Authentication (offline stand-in)
+ *
+ * Accepts any email without a code, so sign-in can be exercised without
+ * configuring secrets. Never use it for a deployment anyone else can reach.
+ * Enable with AUTH_PROVIDER=local.
+ */
+
+import type { Credentials } from './index'
+
+/**
+ * Sign in as whoever the email says
+ * @returns The user id (the normalized email)
+ */
+export async function authenticateLocally({ email }: Credentials): Promise<string | null> {
+  return email
+}
@@ -0,0 +1,41 @@
+/**
+ * Conversation Ownership
+ *
+ * The client sends back the id of the conversation it wants to continue
+ * (the id of the last response). Those ids would let
+ * anyone who learns one read the conversation, so the server records who
+ * each id was issued to and refuses to continue it for anyone else.
+ *
+ * Ids with no owner on record (the Assistants API thread ids that chats
+ * from before sign-in hold) are refused too: nobody can show they were
+ * issued to them. The page then starts a new conversation, replaying the
+ * chat's messages; that is the only way old chats carry on.
+ */
+
+import { getDataDir, readJsonFile, writeJsonFile, withFileLock } from '@/lib/storage'
+
+type OwnerRecord = Record<string, string>
+
+const ownersPath = () => getDataDir('auth', 'conversations.json')
+const readOwners = () => readJsonFile<OwnerRecord>(ownersPath(), {})
+
+/**
+ * Record that a conversation id was issued to a user
+ */
+export async function recordOwner(conversationId: string, userId: string): Promise<void> {
+  const filePath = ownersPath()
+  await withFileLock(filePath, async () => {
+    const owners = await readOwners()
+    if (owners[conversationId] === userId) return
+    await writeJsonFile(filePath, { ...owners, [conversationId]: userId })
+  })
+}
+
+/**
+ * Check whether a user may continue a conversation: only if it was issued
+ * to them
+ */
+export async function canContinue(conversationId: string, userId: string): Promise<boolean> {
+  const owners = await readOwners()
+  return owners[conversationId] === userId
+}
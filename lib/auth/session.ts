@@ -0,0 +1,103 @@
+/**
+ * Sessions
+ *
+ * A signed-in user carries a session cookie holding their user id and an
+ * expiry, signed with HMAC-SHA256. Only Web Crypto is used here so the
+ * same code runs in middleware (edge runtime) and in route handlers.
+ */
+
+import type { NextRequest } from 'next/server'
+
+export interface Session {
+  userId: string
+  // Milliseconds since the epoch
+  expiresAt: number
+}
+
+export const SESSION_COOKIE = 'philo_session'
+
+// How long a sign-in lasts
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60
+
+// Only used by the local stand-in, which is for offline development
+const LOCAL_DEV_SECRET = 'philo-local-development-secret'
+
+const encoder = new TextEncoder()
+
+/**
+ * Get the key sessions are signed with (AUTH_SECRET)
+ */
+function getAuthSecret(): string {
+  const secret = process.env.AUTH_SECRET
+  if (secret) return secret
+  if (process.env.AUTH_PROVIDER === 'local') return LOCAL_DEV_SECRET
+  throw new Error('AUTH_SECRET must be set to sign sessions')
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+function importKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getAuthSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  )
+}
+
+/**
+ * Create a signed session token for a user
+ */
+export async function createSessionToken(userId: string): Promise<string> {
+  const session: Session = {
+    userId,
+    expiresAt: Date.now() + SESSION_MAX_AGE_SECONDS * 1000,
+  }
+  const payload = toBase64Url(encoder.encode(JSON.stringify(session)))
+  const signature = await crypto.subtle.sign('HMAC', await importKey(), encoder.encode(payload))
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+/**
+ * Check a session token's signature and expiry
+ * @returns The session, or null if the token is missing, forged or expired
+ */
+export async function verifySessionToken(token: string | undefined): Promise<Session | null> {
+  if (!token) return null
+  const [payload, signature] = token.split('.')
+  if (!payload || !signature) return null
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await importKey(),
+      fromBase64Url(signature) as BufferSource,
+      encoder.encode(payload)
+    )
+    if (!valid) return null
+
+    const session = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as Session
+    if (typeof session.userId !== 'string' || typeof session.expiresAt !== 'number') return null
+    return session.expiresAt > Date.now() ? session : null
+  } catch (e) {
+    // Malformed tokens are treated like missing ones
+    return null
+  }
+}
+
+/**
+ * Get the session for a request from its cookie
+ */
+export function getSession(request: NextRequest): Promise<Session | null> {
+  return verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value)
+}
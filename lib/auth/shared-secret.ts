@@ -0,0 +1,43 @@
+/**
+ * Shared Secret Authentication
+ *
+ * Everyone signs in with their email and the same access code. The email
+ * only identifies the user (it isn't verified), so PHILO_ALLOWED_EMAILS can
+ * narrow who may use the code. Entries are full addresses or @domain.com.
+ *
+ * Anyone who has the code can sign in as any allowed email and read that
+ * user's chats, so chats are not private between users. Use per-user
+ * access codes (access-codes.ts) where they should be.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto'
+import type { Credentials } from './index'
+
+function sha256(text: string): Buffer {
+  return createHash('sha256').update(text).digest()
+}
+
+function isAllowed(email: string): boolean {
+  const allowed = (process.env.PHILO_ALLOWED_EMAILS || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean)
+  if (allowed.length === 0) return true
+  return allowed.some(entry => (entry.startsWith('@') ? email.endsWith(entry) : email === entry))
+}
+
+/**
+ * Sign in with an email and the shared access code (PHILO_ACCESS_CODE)
+ * @returns The user id (the normalized email), or null if refused
+ */
+export async function authenticateWithSharedSecret({ email, code }: Credentials): Promise<string | null> {
+  const accessCode = process.env.PHILO_ACCESS_CODE
+  if (!accessCode) {
+    throw new Error('PHILO_ACCESS_CODE must be set to sign in with a shared secret')
+  }
+
+  // Compare digests so the check takes the same time for every guess
+  if (!code || !timingSafeEqual(sha256(code), sha256(accessCode))) return null
+
+  return isAllowed(email) ? email : null
+}
@@ -0,0 +1,55 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { closestPassage, extractClaim, insertFootnotes } from './citations'
+
+test('every citation gets its own number, in order of position', () => {
+  const text = 'Justice is harmony. Courage is knowledge. Justice is the rule of reason.'
+  const { text: marked, footnotes } = insertFootnotes(text, [
+    { fileId: 'republic', offset: 72 },
+    { fileId: 'republic', offset: 19 },
+    { fileId: 'laches', offset: 41 },
+  ])
+
+  assert.equal(marked, 'Justice is harmony.[1] Courage is knowledge.[2] Justice is the rule of reason.[3]')
+  assert.deepEqual(footnotes.map(f => [f.index, f.fileId, f.annotation]), [
+    [1, 'republic', 1],
+    [2, 'laches', 2],
+    [3, 'republic', 0],
+  ])
+  for (const footnote of footnotes) {
+    assert.equal(marked.slice(footnote.startIndex, footnote.endIndex), `[${footnote.index}]`)
+  }
+})
+
+test('a file cited twice at the same spot is marked once', () => {
+  const { text, footnotes } = insertFootnotes('One. Two.', [
+    { fileId: 'a', offset: 4 },
+    { fileId: 'a', offset: 4 },
+    { fileId: 'b', offset: 4 },
+  ])
+  assert.equal(text, 'One.[1][2] Two.')
+  assert.deepEqual(footnotes.map(f => f.fileId), ['a', 'b'])
+})
+
+test('offsets past the end are clamped', () => {
+  assert.equal(insertFootnotes('Short.', [{ fileId: 'a', offset: 99 }]).text, 'Short.[1]')
+})
+
+test('the claim is the sentence before the marker', () => {
+  const text = 'Plato wrote dialogues. The Republic asks what justice is.[1][2] More follows.'
+  assert.equal(extractClaim(text, text.indexOf('[1]')), 'The Republic asks what justice is.')
+  assert.equal(extractClaim(text, text.indexOf('[2]')), 'The Republic asks what justice is.')
+  assert.equal(extractClaim('First line\nSecond line[1]', 22), 'Second line')
+  assert.equal(extractClaim('[1] at the start', 0), undefined)
+})
+
+test('the quoted passage is the one closest to the claim', () => {
+  const passages = [
+    'The city is divided into three classes.',
+    'Justice in the soul is a harmony of reason, spirit and appetite.',
+  ]
+  assert.equal(closestPassage('Justice is a harmony of the soul.', passages), passages[1])
+  assert.equal(closestPassage('Nothing in common here.', passages), passages[0])
+  assert.equal(closestPassage(undefined, passages), passages[0])
+  assert.equal(closestPassage('Anything', []), undefined)
+})
@@ -0,0 +1,164 @@
+/**
+ * Citations
+ *
+ * Answers cite the library with numbered footnote markers like [1] in the
+ * text. Each number maps to a Citation describing the file it came from,
+ * the passage that was retrieved, and the claim in the answer it supports.
+ */
+
+export interface Citation {
+  // Footnote number, as it appears in the answer text ([1], [2], ...)
+  index: number
+  fileId: string
+  filename: string
+  // Excerpt of the retrieved passage, when the search returned its content
+  quote?: string
+  // The sentence in the answer that the footnote is attached to
+  claim?: string
+  // Position of this citation's [n] marker in the answer text
+  startIndex: number
+  endIndex: number
+}
+
+/**
+ * Check that a value has every field of a Citation, correctly typed.
+ * Citations come back from imports and other devices, and the page renders
+ * them as they are.
+ */
+export function isCitation(value: unknown): value is Citation {
+  const citation = value as Citation
+  return !!citation
+    && typeof citation === 'object'
+    && Number.isInteger(citation.index)
+    && typeof citation.fileId === 'string'
+    && typeof citation.filename === 'string'
+    && (citation.quote === undefined || typeof citation.quote === 'string')
+    && (citation.claim === undefined || typeof citation.claim === 'string')
+    && Number.isInteger(citation.startIndex)
+    && Number.isInteger(citation.endIndex)
+}
+
+// Raw markers the Assistants API embedded in text, e.g. 【4:0†source】
+const RAW_MARKER = /【\d+:\d+†[^】]*】/g
+
+// Footnote markers as they appear in answer text, e.g. [2]
+export const FOOTNOTE_MARKER = /\[(\d+)\]/g
+
+// Longest passage kept for a citation
+const MAX_QUOTE_LENGTH = 600
+
+// A file the model cited, and the character offset in its answer it cites it at
+export interface FileAnnotation {
+  fileId: string
+  offset: number
+}
+
+export interface Footnote {
+  index: number
+  fileId: string
+  // Which of the annotations given to insertFootnotes this footnote marks
+  annotation: number
+  // Position of the footnote's [n] marker in the marked-up text
+  startIndex: number
+  endIndex: number
+}
+
+/**
+ * Insert numbered footnote markers into an answer at the offsets its file
+ * citations point to. Every citation gets its own number, in the order they
+ * appear, so each keeps the sentence it supports and its own passage; a file
+ * cited twice at the same spot is only marked once.
+ */
+export function insertFootnotes(
+  text: string,
+  annotations: FileAnnotation[]
+): { text: string; footnotes: Footnote[] } {
+  const sorted = annotations
+    .map((annotation, order) => ({ ...annotation, order }))
+    .sort((a, b) => a.offset - b.offset || a.order - b.order)
+
+  const footnotes: Footnote[] = []
+  const placed = new Set<string>()
+  let output = ''
+  let last = 0
+
+  for (const { fileId, offset, order } of sorted) {
+    const position = Math.min(Math.max(offset, last), text.length)
+    if (placed.has(`${position}:${fileId}`)) continue
+    placed.add(`${position}:${fileId}`)
+
+    output += text.slice(last, position)
+    last = position
+    const index = footnotes.length + 1
+    const marker = `[${index}]`
+    footnotes.push({ index, fileId, annotation: order, startIndex: output.length, endIndex: output.length + marker.length })
+    output += marker
+  }
+
+  return { text: output + text.slice(last), footnotes }
+}
+
+/**
+ * Remove the raw citation markers the Assistants API left in message text
+ */
+export function stripRawMarkers(text: string): string {
+  return text.replace(RAW_MARKER, '')
+}
+
+/**
+ * The sentence that ends just before a footnote marker
+ */
+export function extractClaim(text: string, markerStart: number): string | undefined {
+  const before = text.slice(0, markerStart).replace(/(\s*\[\d+\])+\s*$/, '').trimEnd()
+  // Ignore the claim's own closing punctuation when looking for where it starts
+  const body = before.replace(/[.!?]+$/, '')
+  const boundary = /[.!?](?:\s*\[\d+\])*\s+|\n/g
+  let start = 0
+  for (const match of Array.from(body.matchAll(boundary))) {
+    start = match.index! + match[0].length
+  }
+  const claim = before.slice(start).trim()
+  return claim || undefined
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[\s.,;:!?"'“”‘’()[\]{}—–-]+/).filter(word => word.length > 2))
+}
+
+/**
+ * The passage a citation most likely quotes, when the search returned
+ * several from the cited file: the one sharing the most words with the
+ * claim (the first when there is no claim or nothing in common)
+ */
+export function closestPassage(claim: string | undefined, passages: string[]): string | undefined {
+  if (!claim || passages.length < 2) return passages[0]
+  const claimed = words(claim)
+  let best = passages[0]
+  let bestScore = 0
+  for (const passage of passages) {
+    const score = Array.from(words(passage)).filter(word => claimed.has(word)).length
+    if (score > bestScore) {
+      best = passage
+      bestScore = score
+    }
+  }
+  return best
+}
+
+/**
+ * Shorten a retrieved passage to a readable excerpt
+ */
+export function excerpt(text: string, maxLength = MAX_QUOTE_LENGTH): string {
+  const clean = text.replace(/\s+/g, ' ').trim()
+  if (clean.length <= maxLength) return clean
+  const cut = clean.slice(0, maxLength)
+  const lastSpace = cut.lastIndexOf(' ')
+  return (lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut) + '…'
+}
+
+/**
+ * The distinct filenames cited, in footnote order
+ */
+export function citedFilenames(citations: Citation[]): string[] {
+  return Array.from(new Set(citations.map(c => c.filename)))
+}
@@ -0,0 +1,77 @@
+/**
+ * Chat Stream Events
+ *
+ * /api/chat answers with newline-delimited JSON (NDJSON): one event per line,
+ * sent as soon as it is available. This module defines the event shapes and
+ * the helpers used on both ends of the stream.
+ */
+
+import type { Citation } from './citations'
+
+export interface ChatDebugInfo {
+  toolsUsed: string[]
+  hasAnnotations: boolean
+}
+
+// Model tokens the answer cost, for the usage ledger
+export interface ChatUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export type ChatStreamEvent =
+  // The conversation to continue from: the id of the finished response, sent
+  // in the threadId field that chats have always stored
+  | { type: 'thread'; threadId: string }
+  // A piece of the answer text
+  | { type: 'text'; delta: string }
+  // The assistant started using a tool (e.g. file_search)
+  | { type: 'tool_call'; tool: string }
+  // Footnotes for the finished answer. When present, text is the answer with
+  // its [n] markers inserted and replaces the text streamed so far.
+  | { type: 'citations'; citations: Citation[]; text?: string }
+  // The answer is complete
+  | { type: 'done'; threadId: string; debug: ChatDebugInfo; usage?: ChatUsage }
+  // The response failed after the stream had started
+  | { type: 'error'; error: string }
+
+export const CHAT_STREAM_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8'
+
+/**
+ * Serialize an event as a single NDJSON line
+ */
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  return JSON.stringify(event) + '\n'
+}
+
+/**
+ * Read events from an NDJSON response body as they arrive
+ * @param body - The streamed response body from /api/chat
+ */
+export async function* readChatEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as ChatStreamEvent
+      }
+    }
+
+    buffer += decoder.decode()
+    if (buffer.trim()) yield JSON.parse(buffer) as ChatStreamEvent
+  } finally {
+    reader.releaseLock()
+  }
+}
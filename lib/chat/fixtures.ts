@@ -0,0 +1,61 @@
+/**
+ * Fixture Documents
+ *
+ * A small, fixed library the local chat provider answers from, so the chat
+ * can be exercised offline. Each paragraph is searched as its own passage.
+ */
+
+export interface FixtureDocument {
+  fileId: string
+  filename: string
+  title: string
+  paragraphs: string[]
+}
+
+export const FIXTURE_DOCUMENTS: FixtureDocument[] = [
+  {
+    fileId: 'file-fixture-meditations',
+    filename: 'meditations.pdf',
+    title: 'Meditations',
+    paragraphs: [
+      'Marcus Aurelius wrote the Meditations as private notes to himself while leading Roman armies on campaign. They were never meant for publication, which is why they read as reminders rather than arguments.',
+      'A recurring Stoic theme is the difference between what is in our control and what is not. Our judgments, intentions and actions are ours; reputation, health and the behaviour of others are not, so peace comes from attending to the first.',
+      'Marcus returns often to impermanence. Empires, emperors and quarrels all pass quickly, and remembering this is meant to make anger and ambition look small.',
+      'Duty to the common good runs through the book. Each person is part of a larger whole, and a good life is one spent doing the work in front of you well and without complaint.',
+    ],
+  },
+  {
+    fileId: 'file-fixture-nicomachean-ethics',
+    filename: 'nicomachean-ethics.pdf',
+    title: 'Nicomachean Ethics',
+    paragraphs: [
+      'Aristotle asks what the highest human good is and answers eudaimonia, usually translated as happiness or flourishing. It is not a feeling but an activity: living well over a complete life.',
+      'Virtue, for Aristotle, is a settled disposition to choose the mean between two extremes. Courage sits between cowardice and recklessness, and generosity between stinginess and extravagance.',
+      'Virtues of character are acquired by habit. We become just by doing just acts and brave by doing brave ones, which is why upbringing and practice matter so much.',
+      'Two books are devoted to friendship. Friendships of utility and of pleasure fade when their benefits do, while friendships of virtue, between people who love each other for their character, endure.',
+    ],
+  },
+  {
+    fileId: 'file-fixture-republic',
+    filename: 'the-republic.pdf',
+    title: 'The Republic',
+    paragraphs: [
+      'The Republic opens with the question of what justice is and whether the just person is happier than the unjust one. Socrates answers by describing justice in a city before looking for it in the soul.',
+      'In the allegory of the cave, prisoners mistake shadows on a wall for reality. Education is pictured as the painful turn from the shadows toward the fire and finally the sunlight outside.',
+      'Plato argues that philosophers should rule, because only they grasp the Forms, the unchanging realities behind the things we see, and above all the Form of the Good.',
+      'Justice in the soul is a kind of harmony. Reason rules, spirit supports it, and appetite is kept in check, just as each class in the ideal city does its own work.',
+    ],
+  },
+  {
+    fileId: 'file-fixture-phoenician-seafaring',
+    filename: 'phoenician-seafaring.pdf',
+    title: 'Phoenician Seafaring',
+    paragraphs: [
+      'From cities such as Tyre, Sidon and Byblos, Phoenician traders built a network of ports across the Mediterranean, reaching Cyprus, Sicily, Spain and beyond the Strait of Gibraltar.',
+      'Phoenician sailors navigated by the stars, and Greek writers credited them with steering by the Pole Star, which the Greeks called the Phoenician star.',
+      'Their most famous export was purple dye made from murex sea snails. It took thousands of snails to dye a single garment, which made purple a colour of kings.',
+      'The Phoenician alphabet, with its small set of letters for consonants, was adopted and adapted by the Greeks and became the ancestor of most alphabets in use today.',
+      'Carthage, founded as a Phoenician colony in North Africa, grew into a major sea power of its own before its wars with Rome.',
+    ],
+  },
+]
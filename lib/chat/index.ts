@@ -0,0 +1,107 @@
+/**
+ * Modular Chat Service
+ *
+ * This module provides a unified interface for the backends that answer
+ * chat messages. Currently supports:
+ * - OpenAI (Responses API with file_search over the chat's library)
+ * - Local (a deterministic offline mock that answers from fixture documents)
+ *
+ * The provider is picked with CHAT_PROVIDER ('openai' by default).
+ *
+ * To add a new provider:
+ * 1. Create a new file in lib/chat/ (e.g., newprovider.ts)
+ * 2. Export an object implementing ChatProvider
+ * 3. Add it to the ChatProviderName type and providers object below
+ */
+
+import type { LanguageCode } from '@/lib/language'
+import type { LibraryConfig } from '@/lib/library'
+import type { ChatStreamEvent, ChatUsage } from './events'
+
+export type ChatProviderName = 'openai' | 'local'
+
+// An earlier message, replayed to start a conversation part-way through
+export interface ChatHistoryMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface ChatRequest {
+  message: string
+  // Conversation to continue, as returned in an earlier 'thread' event
+  threadId?: string | null
+  // Messages to start a new conversation from, when a chat forks at an
+  // earlier question; only used without a threadId
+  history?: ChatHistoryMessage[]
+  // The library to search for this chat
+  library: LibraryConfig
+  // The language to answer in; without one, providers answer in the
+  // language of the message
+  language?: LanguageCode
+  // Aborted when the client stops waiting for the answer; providers stop
+  // generating rather than finish an answer nobody will read
+  signal?: AbortSignal
+}
+
+// The first exchange of a chat, to name it after
+export interface TitleRequest {
+  question: string
+  answer: string
+}
+
+export interface ChatTitle {
+  title: string
+  usage?: ChatUsage
+}
+
+export interface ChatProvider {
+  /**
+   * Send a message and stream the answer back. Resolves once the provider
+   * has accepted the message, so request errors surface before streaming;
+   * the events then deliver text deltas, tool calls, citations and the
+   * conversation id. Failures mid-answer are thrown from the iterator.
+   */
+  sendMessage(request: ChatRequest): Promise<AsyncIterable<ChatStreamEvent>>
+
+  /**
+   * Suggest a short title for a chat from its first exchange
+   */
+  generateTitle(request: TitleRequest): Promise<ChatTitle>
+}
+
+import { openaiChatProvider } from './openai'
+import { localChatProvider } from './local'
+
+const providers: Record<ChatProviderName, ChatProvider> = {
+  openai: openaiChatProvider,
+  local: localChatProvider,
+}
+
+/**
+ * Check whether a value names a registered chat provider
+ */
+export function isChatProviderName(value: unknown): value is ChatProviderName {
+  return typeof value === 'string' && Object.hasOwn(providers, value)
+}
+
+/**
+ * Get the provider configured through CHAT_PROVIDER (defaults to 'openai')
+ */
+export function getDefaultProvider(): ChatProviderName {
+  const configured = process.env.CHAT_PROVIDER
+  return isChatProviderName(configured) ? configured : 'openai'
+}
+
+/**
+ * Get the chat provider with the specified name
+ * @param name - The chat provider to use (defaults to CHAT_PROVIDER)
+ */
+export function getChatProvider(name: ChatProviderName = getDefaultProvider()): ChatProvider {
+  const provider = providers[name]
+
+  if (!provider) {
+    throw new Error(`Unknown chat provider: ${name}`)
+  }
+
+  return provider
+}
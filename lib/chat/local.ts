@@ -0,0 +1,176 @@
+/**
+ * Local Chat Provider (offline mock)
+ *
+ * Answers deterministically from the fixture documents: the passages that
+ * share the most words with the question are quoted back with footnotes.
+ * The same message always gets the same answer, so CI and offline
+ * development can exercise /api/chat and the page without an API key.
+ * It only writes English, so the requested language is ignored.
+ * Enable with CHAT_PROVIDER=local.
+ */
+
+import { createHash } from 'crypto'
+import { Citation, excerpt, extractClaim, insertFootnotes, FileAnnotation } from './citations'
+import type { ChatStreamEvent } from './events'
+import { FIXTURE_DOCUMENTS, FixtureDocument } from './fixtures'
+import type { ChatProvider } from './index'
+
+// Most passages quoted in one answer
+const MAX_PASSAGES = 2
+
+// Rough characters per token, so the mock counts against quotas like a model
+const CHARS_PER_TOKEN = 4
+
+// Words too common to say anything about what the question is about
+const STOP_WORDS = new Set([
+  'about', 'and', 'are', 'can', 'did', 'does', 'for', 'from', 'have', 'how',
+  'into', 'its', 'me', 'tell', 'that', 'the', 'their', 'them', 'there', 'they',
+  'this', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'with', 'you',
+  'your', 'any', 'some', 'book', 'books',
+])
+
+interface Passage {
+  document: FixtureDocument
+  text: string
+  score: number
+}
+
+function terms(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[a-z]+/g) || []
+  return new Set(
+    words
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+      // Treat simple plurals as the same word
+      .map(word => (word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+  )
+}
+
+// The best passage from each document, best first
+function search(question: string): Passage[] {
+  const wanted = terms(question)
+  const best = new Map<string, Passage>()
+
+  for (const document of FIXTURE_DOCUMENTS) {
+    for (const text of document.paragraphs) {
+      const found = Array.from(terms(`${document.title} ${text}`))
+      const score = found.filter(term => wanted.has(term)).length
+      const current = best.get(document.fileId)
+      if (score > 0 && (!current || score > current.score)) {
+        best.set(document.fileId, { document, text, score })
+      }
+    }
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_PASSAGES)
+}
+
+function composeAnswer(question: string, libraryName: string) {
+  const passages = search(question)
+
+  if (passages.length === 0) {
+    const titles = FIXTURE_DOCUMENTS.map(d => `**${d.title}**`).join(', ')
+    return {
+      text: `I couldn't find anything about that in the ${libraryName}. The books I have are ${titles}.`,
+      footnotes: [],
+      passages,
+    }
+  }
+
+  let answer = `Here's what I found in the ${libraryName}.\n\n`
+  const annotations: FileAnnotation[] = []
+  for (const passage of passages) {
+    answer += `**${passage.document.title}**: ${passage.text}`
+    annotations.push({ fileId: passage.document.fileId, offset: answer.length })
+    answer += '\n\n'
+  }
+  answer += 'Ask me about any of these and I can go into more detail.'
+
+  return { ...insertFootnotes(answer, annotations), passages }
+}
+
+async function* streamAnswer(
+  question: string,
+  threadId: string | null | undefined,
+  libraryName: string,
+  signal?: AbortSignal
+): AsyncGenerator<ChatStreamEvent> {
+  yield { type: 'tool_call', tool: 'file_search' }
+
+  const { text, footnotes, passages } = composeAnswer(question, libraryName)
+
+  // Stream a few words at a time, like a real model would
+  for (const chunk of text.match(/(?:\S+\s*){1,3}/g) || []) {
+    // Stop where the client did, as a model would
+    if (signal?.aborted) return
+    yield { type: 'text', delta: chunk }
+  }
+
+  // One annotation was made per passage, in order
+  const citations: Citation[] = footnotes.map(({ annotation, ...footnote }) => {
+    const passage = passages[annotation]
+    return {
+      ...footnote,
+      filename: passage.document.filename,
+      quote: excerpt(passage.text),
+      claim: extractClaim(text, footnote.startIndex),
+    }
+  })
+
+  // Ids chain like response ids: the same conversation always gets the same ones
+  const responseId = 'resp_local_' + createHash('sha256')
+    .update(`${threadId || ''}\n${question}`)
+    .digest('hex')
+    .slice(0, 24)
+
+  yield { type: 'thread', threadId: responseId }
+  yield { type: 'citations', citations }
+  yield {
+    type: 'done',
+    threadId: responseId,
+    debug: {
+      toolsUsed: ['file_search'],
+      hasAnnotations: citations.length > 0,
+    },
+    usage: {
+      inputTokens: Math.ceil(question.length / CHARS_PER_TOKEN),
+      outputTokens: Math.ceil(text.length / CHARS_PER_TOKEN),
+    },
+  }
+}
+
+// Name a chat after the book that best matches its question, and what it
+// asked about (questions tend to end with their subject)
+function composeTitle(question: string): string {
+  const [best] = search(question)
+  if (!best) {
+    return question.split(/\s+/).slice(0, 6).join(' ').replace(/[?.!]+$/, '')
+  }
+
+  const titleTerms = terms(best.document.title)
+  const topic = (question.match(/[A-Za-z]+/g) || [])
+    .reverse()
+    .find(word => Array.from(terms(word)).some(term => !titleTerms.has(term)))
+  return topic ? `${best.document.title} on ${topic.toLowerCase()}` : best.document.title
+}
+
+export const localChatProvider: ChatProvider = {
+  async generateTitle({ question }) {
+    const title = composeTitle(question)
+    return {
+      title,
+      usage: {
+        inputTokens: Math.ceil(question.length / CHARS_PER_TOKEN),
+        outputTokens: Math.ceil(title.length / CHARS_PER_TOKEN),
+      },
+    }
+  },
+
+  async sendMessage({ message, threadId, history, library, signal }) {
+    // A fork's replayed history stands in for the conversation it continues,
+    // so forks from different points get different ids
+    const previous = threadId || (history?.length ? JSON.stringify(history) : null)
+    return streamAnswer(message, previous, library.name, signal)
+  },
+}
@@ -0,0 +1,249 @@
+/**
+ * OpenAI Chat Provider
+ *
+ * Answers with the Responses API, using file_search over the chat's
+ * library. Conversations continue through previous_response_id. Chats
+ * started on the older Assistants API hold a thread id instead, which has
+ * no owner on record, so /api/chat refuses it and the page replays those
+ * chats' messages as history.
+ * Documentation: https://platform.openai.com/docs/api-reference/responses
+ */
+
+import OpenAI from 'openai'
+import { LanguageCode, languageName } from '@/lib/language'
+import {
+  Citation,
+  FileAnnotation,
+  closestPassage,
+  excerpt,
+  extractClaim,
+  insertFootnotes,
+  stripRawMarkers,
+} from './citations'
+import type { ChatStreamEvent } from './events'
+import type { ChatProvider } from './index'
+
+type FileSearchResult = OpenAI.Responses.ResponseFileSearchToolCall.Result
+
+// Created on first use, so offline setups can import this module without a key
+let client: OpenAI | null = null
+
+function getOpenAI(): OpenAI {
+  if (!client) {
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  }
+  return client
+}
+
+const SYSTEM_PROMPT = `You are Philo, a helpful research assistant with access to a curated library of books (PDFs).
+
+When recommending books:
+1. LEAD with books that are actual files in your library - these are your primary recommendations
+2. Summarize what that book covers and its key insights on the topic
+3. If that book references or recommends other books, feel free to mention those too as secondary recommendations - just be clear they're "referenced in [Book]" or "recommended by the author" so the user knows they're not in your library
+4. If you don't have any books on a topic, say so honestly
+
+Example response pattern:
+"I have [Book A] in my library which covers [topic]. Key insights include... The author also recommends [Book B] for further reading on this, though that one isn't in my collection."
+
+Be conversational, helpful, and generous with insights.`
+
+const MODEL = 'gpt-4o'
+
+// Added to every library's prompt, custom ones included. Sources are often
+// in another language than the reader's (French and Arabic texts, say).
+function languageInstructions(language?: LanguageCode): string {
+  const target = language ? languageName(language) : 'the language the user writes in'
+  return `Always answer in ${target}, whatever language the books you draw on are written in. When you quote a passage in another language, give a translation alongside it.`
+}
+
+// Titles don't need the big model
+const TITLE_MODEL = 'gpt-4o-mini'
+
+const TITLE_PROMPT = `Write a title of at most six words for a conversation that begins with the exchange below, in the language of the question. Reply with the title only, without quotes or a full stop.`
+
+// Enough of the answer to tell what it is about
+const TITLE_ANSWER_LENGTH = 1500
+
+// Filenames don't change, so look each file up only once per instance
+const filenameCache = new Map<string, string>()
+
+async function getFilename(fileId: string): Promise<string> {
+  const cached = filenameCache.get(fileId)
+  if (cached) return cached
+
+  try {
+    const file = await getOpenAI().files.retrieve(fileId)
+    filenameCache.set(fileId, file.filename)
+    return file.filename
+  } catch (e) {
+    // File might not be accessible, fall back to its id
+    return fileId
+  }
+}
+
+// Build footnotes from the file_citation annotations on the finished answer
+async function getCitations(
+  response: OpenAI.Responses.Response
+): Promise<{ text: string; citations: Citation[] }> {
+  const results: FileSearchResult[] = []
+  const annotations: FileAnnotation[] = []
+  let answer = ''
+
+  for (const item of response.output) {
+    if (item.type === 'file_search_call') {
+      results.push(...(item.results || []))
+    } else if (item.type === 'message') {
+      for (const content of item.content) {
+        if (content.type !== 'output_text') continue
+        for (const annotation of content.annotations) {
+          // Offsets are relative to this part of the answer
+          if (annotation.type === 'file_citation') {
+            annotations.push({ fileId: annotation.file_id, offset: answer.length + annotation.index })
+          }
+        }
+        answer += content.text
+      }
+    }
+  }
+
+  const { text, footnotes } = insertFootnotes(answer, annotations)
+  const citations = await Promise.all(footnotes.map(async ({ annotation, ...footnote }): Promise<Citation> => {
+    // An annotation names the file but not which of its search results it
+    // drew on, so the passage closest to the cited sentence is quoted
+    const fromFile = results.filter(r => r.file_id === footnote.fileId)
+    const claim = extractClaim(text, footnote.startIndex)
+    const quote = closestPassage(claim, fromFile.flatMap(r => (r.text ? [r.text] : [])))
+    return {
+      ...footnote,
+      filename: fromFile[0]?.filename || await getFilename(footnote.fileId),
+      quote: quote ? excerpt(quote) : undefined,
+      claim,
+    }
+  }))
+
+  return { text, citations }
+}
+
+// Turn the Responses API event stream into chat stream events
+async function* streamAnswer(
+  responseStream: AsyncIterable<OpenAI.Responses.ResponseStreamEvent>
+): AsyncGenerator<ChatStreamEvent> {
+  const toolCallIds = new Set<string>()
+  const toolsUsed: string[] = []
+  let streamed = ''
+  let response: OpenAI.Responses.Response | null = null
+
+  for await (const event of responseStream) {
+    switch (event.type) {
+      case 'response.output_item.added':
+        if (event.item.type === 'file_search_call' && !toolCallIds.has(event.item.id)) {
+          toolCallIds.add(event.item.id)
+          toolsUsed.push('file_search')
+          yield { type: 'tool_call', tool: 'file_search' }
+        }
+        break
+
+      case 'response.output_text.delta':
+        if (event.delta) {
+          streamed += event.delta
+          yield { type: 'text', delta: event.delta }
+        }
+        break
+
+      case 'response.completed':
+        response = event.response
+        break
+
+      case 'response.incomplete':
+        // Keep the partial answer; the reason is only useful for debugging
+        console.warn('Response incomplete:', event.response.incomplete_details?.reason)
+        response = event.response
+        break
+
+      case 'response.failed':
+        throw new Error(`Response failed: ${event.response.error?.message || 'Unknown error'}`)
+
+      case 'error':
+        throw new Error(`Response error: ${event.message}`)
+    }
+  }
+
+  if (!response) {
+    throw new Error('The response ended before it completed')
+  }
+
+  // Resolve the footnotes, which arrive as offsets into the finished answer
+  const { text, citations } = await getCitations(response)
+  if (!streamed) {
+    yield { type: 'text', delta: 'I could not formulate a response. Please try again.' }
+  }
+
+  console.log('Tools used in this response:', toolsUsed)
+
+  yield { type: 'thread', threadId: response.id }
+  yield {
+    type: 'citations',
+    citations,
+    ...(streamed && text !== streamed && { text }),
+  }
+  yield {
+    type: 'done',
+    threadId: response.id,
+    debug: {
+      toolsUsed,
+      hasAnnotations: citations.length > 0,
+    },
+    usage: response.usage && {
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+    },
+  }
+}
+
+export const openaiChatProvider: ChatProvider = {
+  async generateTitle({ question, answer }) {
+    const response = await getOpenAI().responses.create({
+      model: TITLE_MODEL,
+      instructions: TITLE_PROMPT,
+      input: `Question: ${question}\n\nAnswer: ${stripRawMarkers(answer).slice(0, TITLE_ANSWER_LENGTH)}`,
+      max_output_tokens: 24,
+      store: false,
+    })
+
+    return {
+      title: response.output_text,
+      usage: response.usage && {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+    }
+  },
+
+  async sendMessage({ message, threadId, history, library, language, signal }) {
+    // Continue from the previous response, or replay the messages of a chat
+    // that has none (from the Assistants API, or the part a fork starts from)
+    let input: OpenAI.Responses.ResponseInput = [{ role: 'user', content: message }]
+    let previousResponseId: string | undefined
+    if (threadId) {
+      previousResponseId = threadId
+    } else if (history?.length) {
+      input = [...history.map(m => ({ role: m.role, content: m.content })), ...input]
+    }
+
+    // Instructions don't carry over from the previous response, so send them
+    // every turn. Aborting closes the stream, which stops the model
+    // generating; /api/chat retries transient errors itself.
+    const responseStream = await getOpenAI().responses.create({
+      model: MODEL,
+      instructions: `${library.systemPrompt || SYSTEM_PROMPT}\n\n${languageInstructions(language)}`,
+      input,
+      previous_response_id: previousResponseId,
+      tools: [{ type: 'file_search', vector_store_ids: [library.vectorStoreId] }],
+      include: ['file_search_call.results'],
+      stream: true,
+    }, { signal, maxRetries: 0 })
+
+    return streamAnswer(responseStream)
+  },
+}
@@ -0,0 +1,65 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import OpenAI from 'openai'
+import { isTransientError, withRetry } from './retry'
+
+// An API error that asks to be retried straight away
+function apiError(status: number, code?: string) {
+  return new OpenAI.APIError(status, { code }, `Error ${status}`, { 'retry-after-ms': '1' })
+}
+
+// Fails with each error in turn, then answers
+function failing(...errors: unknown[]) {
+  let calls = 0
+  const request = async () => {
+    calls++
+    if (errors.length > 0) throw errors.shift()
+    return 'answer'
+  }
+  return { request, calls: () => calls }
+}
+
+test('rate limits, server errors and lost connections are transient', () => {
+  assert.equal(isTransientError(apiError(429)), true)
+  assert.equal(isTransientError(apiError(503)), true)
+  assert.equal(isTransientError(new OpenAI.APIConnectionError({ message: 'reset' })), true)
+  assert.equal(isTransientError(apiError(429, 'insufficient_quota')), false)
+  assert.equal(isTransientError(apiError(400)), false)
+  assert.equal(isTransientError(new OpenAI.APIUserAbortError()), false)
+  assert.equal(isTransientError(new Error('bug')), false)
+})
+
+test('transient errors are retried until the request succeeds', async t => {
+  t.mock.method(console, 'warn', () => {})
+  const { request, calls } = failing(apiError(500), apiError(429))
+  assert.equal(await withRetry(request), 'answer')
+  assert.equal(calls(), 3)
+})
+
+test('the last error is thrown once the attempts run out', async t => {
+  t.mock.method(console, 'warn', () => {})
+  const last = apiError(502)
+  const { request, calls } = failing(apiError(500), last, apiError(503))
+  await assert.rejects(withRetry(request, { attempts: 2 }), error => error === last)
+  assert.equal(calls(), 2)
+})
+
+test('other errors are thrown straight away', async () => {
+  const refused = apiError(400)
+  const { request, calls } = failing(refused)
+  await assert.rejects(withRetry(request), error => error === refused)
+  assert.equal(calls(), 1)
+})
+
+test('aborting stops the wait before the next attempt', async t => {
+  t.mock.method(console, 'warn', () => {})
+  const controller = new AbortController()
+  const slow = new OpenAI.APIError(500, {}, 'Error 500', { 'retry-after-ms': '5000' })
+  const { request, calls } = failing(slow)
+  const started = Date.now()
+  const retried = withRetry(request, { signal: controller.signal })
+  setTimeout(() => controller.abort(new Error('Stopped')), 10)
+  await assert.rejects(retried, /Stopped/)
+  assert.equal(calls(), 1)
+  assert.ok(Date.now() - started < 1000)
+})
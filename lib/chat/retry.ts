@@ -0,0 +1,88 @@
+/**
+ * Retrying Transient Errors
+ *
+ * OpenAI answers 429 when it is briefly over capacity and 5xx when
+ * something failed on its side; both usually go away within seconds.
+ * /api/chat retries them with exponential backoff before giving up, so a
+ * blip doesn't cost the user their question. Only the request that starts
+ * an answer is retried: once text has streamed, starting again would
+ * repeat it.
+ */
+
+import OpenAI from 'openai'
+
+export interface RetryOptions {
+  // Attempts in total, including the first
+  attempts?: number
+  // Stops waiting and retrying, e.g. when the client goes away
+  signal?: AbortSignal
+}
+
+const DEFAULT_ATTEMPTS = 3
+
+// Delay before the first retry; each retry waits twice as long as the last
+const BASE_DELAY_MS = 500
+
+// Longest wait between attempts, even if the API asks for more
+const MAX_DELAY_MS = 8000
+
+/**
+ * Whether an error is worth retrying: rate limits (other than an exhausted
+ * account quota), server errors, and requests that never got an answer
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof OpenAI.APIUserAbortError) return false
+  if (error instanceof OpenAI.APIConnectionError) return true
+  if (!(error instanceof OpenAI.APIError) || error.status === undefined) return false
+  if (error.status === 429) return error.code !== 'insufficient_quota'
+  return error.status >= 500
+}
+
+// How long the API asked us to wait, if it said
+function retryAfterMs(error: unknown): number | null {
+  if (!(error instanceof OpenAI.APIError) || !error.headers) return null
+  const ms = Number(error.headers['retry-after-ms'])
+  if (ms > 0) return ms
+  const seconds = Number(error.headers['retry-after'])
+  return seconds > 0 ? seconds * 1000 : null
+}
+
+function backoff(attempt: number, error: unknown): number {
+  // Jitter keeps clients that failed together from retrying together
+  const delay = retryAfterMs(error) ?? BASE_DELAY_MS * 2 ** attempt * (0.75 + Math.random() / 2)
+  return Math.min(delay, MAX_DELAY_MS)
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Run a request, retrying it with backoff while it fails with a transient
+ * error. The last error is thrown once the attempts run out.
+ */
+export async function withRetry<T>(request: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const attempts = options.attempts ?? DEFAULT_ATTEMPTS
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request()
+    } catch (error) {
+      if (attempt + 1 >= attempts || !isTransientError(error) || options.signal?.aborted) throw error
+      const delay = backoff(attempt, error)
+      console.warn(`Retrying in ${Math.round(delay)}ms after a transient error:`, error instanceof Error ? error.message : error)
+      await wait(delay, options.signal)
+    }
+  }
+}
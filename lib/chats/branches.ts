@@ -0,0 +1,122 @@
+/**
+ * Chat Branches (client)
+ *
+ * Editing an earlier question forks a chat: the messages before it are
+ * kept, the edited question starts a new branch, and the path the chat was
+ * on is set aside. A chat shows one path at a time, in its messages and
+ * threadId as before; the paths set aside are kept whole in branches, so
+ * everything that reads a chat's messages (sync, search, export) sees the
+ * conversation on screen.
+ *
+ * Paths that share their first n messages and differ at the next one are
+ * siblings at n, and the page lets you flip between them there.
+ */
+
+export interface BranchMessage {
+  id: string
+  timestamp: Date
+}
+
+export interface Branch<M extends BranchMessage> {
+  // The conversation this path continues on the chat backend
+  threadId: string | null
+  messages: M[]
+}
+
+export interface BranchableChat<M extends BranchMessage> {
+  threadId: string | null
+  messages: M[]
+  branches: Branch<M>[]
+}
+
+export interface Siblings {
+  // Which of the siblings is on screen (0-based), and how many there are
+  position: number
+  count: number
+}
+
+// Whether two paths have the same first `length` messages
+function sharesPrefix<M extends BranchMessage>(a: M[], b: M[], length: number): boolean {
+  if (a.length < length || b.length < length) return false
+  for (let i = 0; i < length; i++) {
+    if (a[i].id !== b[i].id) return false
+  }
+  return true
+}
+
+// The distinct messages at `index` on paths that match the shown one before it, oldest first
+function alternativesAt<M extends BranchMessage>(chat: BranchableChat<M>, index: number): M[] {
+  const byId = new Map<string, M>()
+  for (const path of [chat.messages, ...chat.branches.map(branch => branch.messages)]) {
+    if (path.length > index && sharesPrefix(path, chat.messages, index)) {
+      byId.set(path[index].id, path[index])
+    }
+  }
+  return Array.from(byId.values()).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+}
+
+/**
+ * The siblings of the message shown at `index`, or null if it has none
+ */
+export function siblingsAt<M extends BranchMessage>(chat: BranchableChat<M>, index: number): Siblings | null {
+  const alternatives = alternativesAt(chat, index)
+  if (alternatives.length < 2) return null
+  return {
+    position: alternatives.findIndex(message => message.id === chat.messages[index]?.id),
+    count: alternatives.length,
+  }
+}
+
+/**
+ * Fork a chat at `index`: keep the messages before it, continue with
+ * `message` on a new path, and set the path shown so far aside
+ */
+export function forkChat<M extends BranchMessage, C extends BranchableChat<M>>(
+  chat: C,
+  index: number,
+  message: M
+): C {
+  return {
+    ...chat,
+    messages: [...chat.messages.slice(0, index), message],
+    // The new path gets its own conversation on the backend
+    threadId: null,
+    branches: [...chat.branches, { threadId: chat.threadId, messages: chat.messages }],
+  }
+}
+
+/**
+ * Show the sibling `offset` places from the one shown at `index` (-1 for
+ * the previous, 1 for the next). Of the paths through that sibling, the
+ * one shown most recently comes back.
+ */
+export function switchBranch<M extends BranchMessage, C extends BranchableChat<M>>(
+  chat: C,
+  index: number,
+  offset: number
+): C {
+  const alternatives = alternativesAt(chat, index)
+  const position = alternatives.findIndex(message => message.id === chat.messages[index]?.id)
+  const target = alternatives[position + offset]
+  if (!target || position === -1) return chat
+
+  // Paths are set aside at the end, so the last match is the most recent
+  let chosen = -1
+  chat.branches.forEach((branch, i) => {
+    if (branch.messages[index]?.id === target.id && sharesPrefix(branch.messages, chat.messages, index)) {
+      chosen = i
+    }
+  })
+  if (chosen === -1) return chat
+
+  const branch = chat.branches[chosen]
+  return {
+    ...chat,
+    messages: branch.messages,
+    threadId: branch.threadId,
+    branches: [
+      ...chat.branches.filter((_, i) => i !== chosen),
+      { threadId: chat.threadId, messages: chat.messages },
+    ],
+  }
+}
@@ -0,0 +1,45 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { chatToJson, parseChatExport, ExportableChat } from './export'
+
+const citation = { index: 1, fileId: 'file-1', filename: 'Republic.pdf', quote: 'Justice is…', claim: 'A claim.', startIndex: 8, endIndex: 11 }
+
+const chat: ExportableChat = {
+  id: 'chat-1',
+  name: 'Justice',
+  threadId: 'resp_1',
+  messages: [
+    { id: 'm1', role: 'user', content: 'What is justice?', timestamp: new Date('2024-05-01T10:00:00Z') },
+    {
+      id: 'm2',
+      role: 'assistant',
+      content: 'A claim.[1] And then',
+      timestamp: new Date('2024-05-01T10:00:05Z'),
+      citations: [citation],
+      status: 'stopped',
+    },
+  ],
+  createdAt: new Date('2024-05-01T10:00:00Z'),
+}
+
+test('a chat survives export and import, including stopped answers', () => {
+  const imported = parseChatExport(chatToJson(chat))
+  assert.ok(typeof imported !== 'string', imported as string)
+  assert.equal(imported.messages[1].status, 'stopped')
+  assert.deepEqual(imported.messages[1].citations, [citation])
+  assert.equal(imported.messages[0].status, undefined)
+})
+
+test('citations with mistyped fields are refused', () => {
+  for (const broken of [{ quote: { text: 'x' } }, { claim: 42 }, { startIndex: '8' }, { filename: null }]) {
+    const data = JSON.parse(chatToJson(chat))
+    Object.assign(data.chat.messages[1].citations[0], broken)
+    assert.equal(parseChatExport(JSON.stringify(data)), 'The chat messages are malformed')
+  }
+})
+
+test('unknown message statuses are refused', () => {
+  const data = JSON.parse(chatToJson(chat))
+  data.chat.messages[1].status = 'finished'
+  assert.equal(parseChatExport(JSON.stringify(data)), 'The chat messages are malformed')
+})
@@ -0,0 +1,412 @@
+/**
+ * Chat Export (client)
+ *
+ * Turns a chat into something that can leave the app:
+ * - Markdown, with each answer's citations as footnotes and a list of every
+ *   source the conversation cited at the end
+ * - A print-ready page in the Phoenician theme, which the browser's print
+ *   dialog saves as a PDF
+ * - JSON, which imports back into the page (and so can be handed to a
+ *   colleague along with its citations)
+ *
+ * The JSON holds the chat exactly as localStorage does, wrapped with a
+ * format marker and version so that later formats can still read it.
+ */
+
+import { Citation, FOOTNOTE_MARKER, citedFilenames, isCitation } from '@/lib/chat/citations'
+import { parseMarkdown } from '@/lib/markdown'
+import { escapeHtml, markdownToHtml } from '@/lib/markdown/html'
+import type { MessageStatus, StoredChat, StoredMessage } from './index'
+
+export interface ExportableMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  timestamp: Date
+  sources?: string[]
+  citations?: Citation[]
+  // Answers that were stopped or failed part way
+  status?: MessageStatus
+}
+
+export interface ExportableChat {
+  id: string
+  name: string
+  threadId: string | null
+  libraryId?: string
+  tags?: string[]
+  messages: ExportableMessage[]
+  createdAt: Date
+}
+
+// A chat read back from an export, in the shape localStorage keeps
+export type ImportedChat = Omit<StoredChat, 'updatedAt' | 'version'>
+
+export const EXPORT_FORMAT = 'philo-chat'
+export const EXPORT_VERSION = 1
+
+export interface ChatExport {
+  format: typeof EXPORT_FORMAT
+  version: number
+  exportedAt: string
+  chat: ImportedChat
+}
+
+export interface ExportOptions {
+  // Name of the library the chat searched, shown under the title
+  libraryName?: string
+}
+
+function speaker(message: ExportableMessage): string {
+  return message.role === 'user' ? 'You' : 'Philo'
+}
+
+// Files a message cited; older saved chats only have sources
+function messageSources(message: ExportableMessage): string[] {
+  return message.citations?.length ? citedFilenames(message.citations) : message.sources || []
+}
+
+/**
+ * Every distinct file cited in a chat, in order of first citation
+ */
+export function chatSources(chat: ExportableChat): string[] {
+  return Array.from(new Set(chat.messages.flatMap(messageSources)))
+}
+
+/**
+ * A file name for an export, e.g. "philo-stoic-ethics-2024-05-01.md"
+ */
+export function exportFilename(chat: ExportableChat, extension: string): string {
+  const slug = chat.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60)
+  const date = chat.createdAt.toISOString().slice(0, 10)
+  return `philo-${slug || 'chat'}-${date}.${extension}`
+}
+
+// Rewrite an answer's [n] markers with a replacement, leaving numbers in
+// brackets that aren't citations alone
+function replaceMarkers(
+  text: string,
+  citations: Citation[] | undefined,
+  replace: (index: number) => string
+): string {
+  if (!citations?.length) return text
+  return text.replace(FOOTNOTE_MARKER, (marker, n: string) =>
+    citations.some(c => c.index === Number(n)) ? replace(Number(n)) : marker
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+// Footnote definitions can't span lines without indentation; keep quotes flat
+function inline(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Render a chat as Markdown
+ *
+ * Footnote labels are numbered per answer ([^2-1] is the first citation of
+ * the second answer) since every answer numbers its citations from 1.
+ */
+export function chatToMarkdown(chat: ExportableChat, options: ExportOptions = {}): string {
+  const lines: string[] = [`# ${chat.name}`, '']
+  const details = [`Started ${chat.createdAt.toLocaleString()}`]
+  if (options.libraryName) details.push(`Library: ${options.libraryName}`)
+  if (chat.tags?.length) details.push(`Tags: ${chat.tags.join(', ')}`)
+  lines.push(`*${details.join(' · ')}*`, '')
+
+  let answer = 0
+  for (const message of chat.messages) {
+    lines.push('---', '', `### ${speaker(message)} · ${message.timestamp.toLocaleString()}`, '')
+
+    if (message.role === 'user') {
+      lines.push(message.content, '')
+      continue
+    }
+
+    answer++
+    const label = (index: number) => `[^${answer}-${index}]`
+    lines.push(replaceMarkers(message.content, message.citations, label), '')
+
+    for (const citation of message.citations || []) {
+      const quote = citation.quote ? ` — “${inline(citation.quote)}”` : ''
+      lines.push(`${label(citation.index)}: **${citation.filename}**${quote}`)
+    }
+    if (message.citations?.length) {
+      lines.push('')
+    } else if (message.sources?.length) {
+      lines.push(`*Sources: ${message.sources.join(', ')}*`, '')
+    }
+  }
+
+  const sources = chatSources(chat)
+  if (sources.length > 0) {
+    lines.push('---', '', '## Sources', '', ...sources.map(source => `- ${source}`), '')
+  }
+
+  return lines.join('\n')
+}
+
+// ---------------------------------------------------------------------------
+// Print (PDF)
+// ---------------------------------------------------------------------------
+
+// Questions are shown as typed, keeping their line breaks
+function plainToHtml(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('\n')
+}
+
+const PRINT_STYLES = `
+  @page { margin: 2cm; }
+  * { box-sizing: border-box; }
+  body {
+    margin: 0 auto;
+    max-width: 48rem;
+    padding: 2rem;
+    background: #FAF3E0;
+    color: #1B2838;
+    font-family: 'Cormorant Garamond', serif;
+    font-size: 13pt;
+    line-height: 1.5;
+    -webkit-print-color-adjust: exact;
+    print-color-adjust: exact;
+  }
+  header { text-align: center; border-bottom: 3px double #B8860B; padding-bottom: 1rem; margin-bottom: 1.5rem; }
+  .brand { font-family: 'Cinzel', serif; letter-spacing: 0.3em; color: #722F37; font-size: 10pt; }
+  .brand span { color: #B8860B; }
+  h1 { font-family: 'Cinzel', serif; font-weight: 600; color: #4A1942; margin: 0.5rem 0; }
+  .details { color: #2E5266; font-style: italic; }
+  article { break-inside: avoid-page; margin-bottom: 1.25rem; padding: 0.75rem 1rem; border-radius: 0.5rem; }
+  article.user { background: #E8D5B7; border-left: 4px solid #C84B31; }
+  article.assistant { border-left: 4px solid #2E5266; }
+  .speaker { font-family: 'Cinzel', serif; font-size: 10pt; letter-spacing: 0.1em; color: #722F37; }
+  .speaker time { font-family: 'Cormorant Garamond', serif; letter-spacing: 0; color: #2E5266; margin-left: 0.5rem; }
+  article p { margin: 0.5rem 0; }
+  article h1, article h2, article h3, article h4 { font-family: 'Cinzel', serif; color: #4A1942; margin: 0.75rem 0 0.25rem; }
+  article h1 { font-size: 16pt; } article h2 { font-size: 14pt; } article h3, article h4 { font-size: 12pt; }
+  article ul, article ol { margin: 0.5rem 0; padding-left: 1.5rem; }
+  article blockquote { margin: 0.5rem 0; padding-left: 0.75rem; border-left: 3px solid #D4AF37; font-style: italic; }
+  article code { font-family: ui-monospace, monospace; font-size: 10pt; background: #E8D5B7; padding: 0 0.25rem; border-radius: 3px; }
+  article pre { background: #E8D5B7; padding: 0.5rem 0.75rem; border-radius: 0.25rem; white-space: pre-wrap; }
+  article pre code { padding: 0; }
+  article table { border-collapse: collapse; margin: 0.5rem 0; }
+  article th, article td { border: 1px solid #B8860B; padding: 0.25rem 0.5rem; }
+  article a { color: #722F37; }
+  sup a { color: #B8860B; font-weight: 600; text-decoration: none; }
+  ol.footnotes { margin: 0.75rem 0 0; padding: 0.5rem 0 0 1.5rem; border-top: 1px solid #D4AF37; font-size: 11pt; }
+  ol.footnotes blockquote { margin: 0.25rem 0 0.5rem; color: #2E5266; font-style: italic; }
+  section.sources { border-top: 3px double #B8860B; margin-top: 2rem; padding-top: 0.5rem; }
+  section.sources h2 { font-family: 'Cinzel', serif; color: #4A1942; font-size: 14pt; }
+`
+
+/**
+ * Render a chat as a standalone HTML page styled for printing
+ */
+export function chatToPrintHtml(chat: ExportableChat, options: ExportOptions = {}): string {
+  const details = [`Started ${chat.createdAt.toLocaleString()}`]
+  if (options.libraryName) details.push(`Library: ${options.libraryName}`)
+  if (chat.tags?.length) details.push(`Tags: ${chat.tags.join(', ')}`)
+
+  let answer = 0
+  const articles = chat.messages.map(message => {
+    const heading = `<div class="speaker">${speaker(message)}<time>${escapeHtml(message.timestamp.toLocaleString())}</time></div>`
+    if (message.role === 'user') {
+      return `<article class="user">${heading}${plainToHtml(message.content)}</article>`
+    }
+
+    answer++
+    const id = (index: number) => `fn-${answer}-${index}`
+    const citations = message.citations || []
+    const blocks = parseMarkdown(message.content, {
+      isFootnote: index => citations.some(c => c.index === index),
+    })
+    const body = markdownToHtml(blocks, {
+      footnote: index => `<sup><a href="#${id(index)}">[${index}]</a></sup>`,
+    })
+
+    let notes = ''
+    if (message.citations?.length) {
+      notes = `<ol class="footnotes">${message.citations.map(citation =>
+        `<li id="${id(citation.index)}" value="${citation.index}"><strong>${escapeHtml(citation.filename)}</strong>` +
+        (citation.quote ? `<blockquote>${escapeHtml(inline(citation.quote))}</blockquote>` : '') +
+        '</li>'
+      ).join('')}</ol>`
+    } else if (message.sources?.length) {
+      notes = `<p class="details">Sources: ${escapeHtml(message.sources.join(', '))}</p>`
+    }
+
+    return `<article class="assistant">${heading}${body}${notes}</article>`
+  })
+
+  const sources = chatSources(chat)
+  const sourceList = sources.length === 0 ? '' :
+    `<section class="sources"><h2>Sources</h2><ul>${sources.map(s => `<li>${escapeHtml(s)}</li>`).join('')}</ul></section>`
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(chat.name)}</title>
+<link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Cinzel:wght@400;600&family=Cormorant+Garamond:ital,wght@0,400;0,600;1,400&display=swap">
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<header>
+<div class="brand"><span>P</span>HILO</div>
+<h1>${escapeHtml(chat.name)}</h1>
+<div class="details">${escapeHtml(details.join(' · '))}</div>
+</header>
+${articles.join('\n')}
+${sourceList}
+</body>
+</html>`
+}
+
+/**
+ * Open a chat in a new window and bring up the print dialog, from which it
+ * can be saved as a PDF
+ * @returns false when the browser blocked the window
+ */
+export function printChat(chat: ExportableChat, options: ExportOptions = {}): boolean {
+  const win = window.open('', '_blank')
+  if (!win) return false
+
+  win.document.open()
+  win.document.write(chatToPrintHtml(chat, options))
+  win.document.close()
+
+  // Wait for the theme fonts so the first printed page isn't in a fallback
+  const print = () => {
+    win.document.fonts.ready.then(() => {
+      win.focus()
+      win.print()
+    })
+  }
+  if (win.document.readyState === 'complete') {
+    print()
+  } else {
+    win.addEventListener('load', print, { once: true })
+  }
+  return true
+}
+
+// ---------------------------------------------------------------------------
+// JSON
+// ---------------------------------------------------------------------------
+
+function toStoredMessage(message: ExportableMessage): StoredMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    timestamp: message.timestamp.toISOString(),
+    sources: message.sources,
+    citations: message.citations,
+    status: message.status,
+  }
+}
+
+/**
+ * Serialize a chat for re-import; sync state and debug info are left out
+ */
+export function chatToJson(chat: ExportableChat): string {
+  const data: ChatExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    chat: {
+      id: chat.id,
+      name: chat.name,
+      threadId: chat.threadId,
+      libraryId: chat.libraryId,
+      tags: chat.tags,
+      messages: chat.messages.map(toStoredMessage),
+      createdAt: chat.createdAt.toISOString(),
+    },
+  }
+  return JSON.stringify(data, null, 2)
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value))
+}
+
+function isMessage(value: unknown): value is StoredMessage {
+  const message = value as StoredMessage
+  return !!message
+    && typeof message.id === 'string'
+    && (message.role === 'user' || message.role === 'assistant')
+    && typeof message.content === 'string'
+    && isDate(message.timestamp)
+    && (message.sources === undefined
+      || (Array.isArray(message.sources) && message.sources.every(s => typeof s === 'string')))
+    && (message.citations === undefined
+      || (Array.isArray(message.citations) && message.citations.every(isCitation)))
+    && (message.status === undefined || message.status === 'stopped' || message.status === 'failed')
+}
+
+/**
+ * Read a JSON export back into a chat
+ * @returns The chat, or an error message describing why the file can't be imported
+ */
+export function parseChatExport(text: string): ImportedChat | string {
+  let data: ChatExport
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return 'The file is not valid JSON'
+  }
+
+  if (!data || data.format !== EXPORT_FORMAT) return 'The file is not a Philo chat export'
+  if (!Number.isInteger(data.version) || data.version > EXPORT_VERSION) {
+    return 'The file was exported by a newer version of Philo'
+  }
+
+  const chat = data.chat
+  if (!chat || typeof chat !== 'object') return 'The export has no chat in it'
+  if (typeof chat.name !== 'string') return 'The chat has no name'
+  if (chat.threadId !== null && typeof chat.threadId !== 'string') return 'The chat thread is malformed'
+  if (chat.libraryId !== undefined && typeof chat.libraryId !== 'string') return 'The chat library is malformed'
+  if (chat.tags !== undefined && !(Array.isArray(chat.tags) && chat.tags.every(tag => typeof tag === 'string'))) {
+    return 'The chat tags are malformed'
+  }
+  if (!isDate(chat.createdAt)) return 'The chat has no start date'
+  if (!Array.isArray(chat.messages) || !chat.messages.every(isMessage)) return 'The chat messages are malformed'
+
+  return {
+    id: typeof chat.id === 'string' ? chat.id : '',
+    name: chat.name,
+    threadId: chat.threadId,
+    libraryId: chat.libraryId,
+    tags: chat.tags,
+    messages: chat.messages.map(m => ({
+      id: m.id,
+      role: m.role,
+      content: m.content,
+      timestamp: m.timestamp,
+      sources: m.sources,
+      citations: m.citations,
+      status: m.status,
+    })),
+    createdAt: chat.createdAt,
+  }
+}
+
+/**
+ * Hand the browser a file to save
+ */
+export function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,86 @@
+/**
+ * File Chat Store
+ *
+ * Keeps each chat in its own JSON file under the data directory, so saves
+ * to different chats never contend and a corrupt file only loses one chat.
+ * Every user gets a folder of their own.
+ */
+
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { getDataDir, readJsonFile, writeJsonFile, withFileLock } from '@/lib/storage'
+import type { ChatStore, StoredChat } from './index'
+
+// User ids are emails. Folders are named after a hash of the id: any
+// replacing of characters that aren't file-safe makes some emails collide.
+function userSegment(userId: string): string {
+  return `user-${createHash('sha256').update(userId).digest('hex').slice(0, 32)}`
+}
+
+/**
+ * Create a chat store that keeps a user's chats in the local data directory
+ * @param userId - Each user gets their own folder
+ */
+export function createFileChatStore(userId: string): ChatStore {
+  const chatsDir = getDataDir('chats', userSegment(userId))
+  // Callers validate ids with isChatId before they reach the store
+  const getChatPath = (chatId: string) => path.join(chatsDir, `${chatId}.json`)
+  const readChat = (chatId: string) => readJsonFile<StoredChat | null>(getChatPath(chatId), null)
+
+  return {
+    async listChats() {
+      let names: string[]
+      try {
+        names = await fs.readdir(chatsDir)
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+        throw error
+      }
+
+      const chats = await Promise.all(
+        names
+          .filter(name => name.endsWith('.json'))
+          .map(name => readChat(name.slice(0, -'.json'.length)))
+      )
+      return chats
+        .filter((chat): chat is StoredChat => chat !== null)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    },
+
+    async getChat(chatId) {
+      return readChat(chatId)
+    },
+
+    async saveChat(update) {
+      const chatPath = getChatPath(update.id)
+      return withFileLock(chatPath, async () => {
+        const current = await readChat(update.id)
+        if ((current?.version || 0) !== update.version) {
+          return { saved: false as const, current }
+        }
+
+        const chat: StoredChat = {
+          ...update,
+          updatedAt: new Date().toISOString(),
+          version: update.version + 1,
+        }
+        await writeJsonFile(chatPath, chat)
+        return { saved: true as const, chat }
+      })
+    },
+
+    async deleteChat(chatId) {
+      const chatPath = getChatPath(chatId)
+      return withFileLock(chatPath, async () => {
+        try {
+          await fs.rm(chatPath)
+          return true
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false
+          throw error
+        }
+      })
+    },
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Conversation Store
+ *
+ * Server-side persistence for chats, so they survive a cleared browser and
+ * can be continued on another device. Each user has their own store.
+ * Currently supports:
+ * - JSON files on disk (one file per chat, under the data directory)
+ *
+ * The provider is picked with CHAT_STORE ('file' by default).
+ *
+ * Every save bumps the chat's version. Writers pass the version their copy
+ * is based on, and a save against an older version is refused so that two
+ * devices can't silently overwrite each other (see sync.ts for the client).
+ *
+ * To add a new provider:
+ * 1. Create a new file in lib/chats/ (e.g., sqlite.ts)
+ * 2. Export a factory returning a ChatStore
+ * 3. Add the provider to the ChatStoreProvider type and providers object below
+ */
+
+import { Citation, isCitation } from '@/lib/chat/citations'
+import type { ChatDebugInfo } from '@/lib/chat/events'
+
+export type ChatStoreProvider = 'file'
+
+// An answer that didn't finish: the user stopped it, or it failed
+export type MessageStatus = 'stopped' | 'failed'
+
+export interface StoredMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  // ISO timestamp
+  timestamp: string
+  sources?: string[]
+  citations?: Citation[]
+  debug?: ChatDebugInfo
+  // Missing on answers that finished
+  status?: MessageStatus
+}
+
+// A path through a chat other than the one it shows (see branches.ts)
+export interface StoredBranch {
+  threadId: string | null
+  messages: StoredMessage[]
+}
+
+// Where a chat's name came from; missing while it is still the default
+export type ChatNameSource = 'auto' | 'user'
+
+export interface StoredChat {
+  id: string
+  name: string
+  nameSource?: ChatNameSource
+  threadId: string | null
+  libraryId?: string
+  // Pinned chats are listed first; tags group chats into folders
+  pinned?: boolean
+  tags?: string[]
+  messages: StoredMessage[]
+  // Paths set aside by editing an earlier question
+  branches?: StoredBranch[]
+  // ISO timestamps; updatedAt is set by the store on every save
+  createdAt: string
+  updatedAt: string
+  // Starts at 1 and goes up by one on every save
+  version: number
+}
+
+// A chat to save, carrying the version it was based on (0 for a new chat)
+export type ChatUpdate = Omit<StoredChat, 'updatedAt'>
+
+export type SaveChatResult =
+  | { saved: true; chat: StoredChat }
+  // The stored chat has moved on (or, for a new chat, already exists)
+  | { saved: false; current: StoredChat | null }
+
+export interface ChatStore {
+  // Most recently updated first
+  listChats(): Promise<StoredChat[]>
+  // Resolves to null when there is no such chat
+  getChat(chatId: string): Promise<StoredChat | null>
+  saveChat(chat: ChatUpdate): Promise<SaveChatResult>
+  // Resolves to false when there is no such chat
+  deleteChat(chatId: string): Promise<boolean>
+}
+
+import { createFileChatStore } from './file'
+
+const providers: Record<ChatStoreProvider, (userId: string) => ChatStore> = {
+  file: createFileChatStore,
+}
+
+const CHAT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+
+/**
+ * Check whether a value is usable as a chat id (ids become file names)
+ */
+export function isChatId(value: unknown): value is string {
+  return typeof value === 'string' && CHAT_ID_PATTERN.test(value)
+}
+
+function isDebugInfo(value: unknown): value is ChatDebugInfo {
+  const debug = value as ChatDebugInfo
+  return !!debug
+    && Array.isArray(debug.toolsUsed)
+    && debug.toolsUsed.every(tool => typeof tool === 'string')
+    && typeof debug.hasAnnotations === 'boolean'
+}
+
+// Every field is checked, since other devices render messages as they are
+function isMessage(value: unknown): value is StoredMessage {
+  const message = value as StoredMessage
+  return !!message
+    && typeof message.id === 'string'
+    && (message.role === 'user' || message.role === 'assistant')
+    && typeof message.content === 'string'
+    && typeof message.timestamp === 'string'
+    && (message.sources === undefined
+      || (Array.isArray(message.sources) && message.sources.every(source => typeof source === 'string')))
+    && (message.citations === undefined
+      || (Array.isArray(message.citations) && message.citations.every(isCitation)))
+    && (message.debug === undefined || isDebugInfo(message.debug))
+    && (message.status === undefined || message.status === 'stopped' || message.status === 'failed')
+}
+
+function isBranch(value: unknown): value is StoredBranch {
+  const branch = value as StoredBranch
+  return !!branch
+    && (branch.threadId === null || typeof branch.threadId === 'string')
+    && Array.isArray(branch.messages)
+    && branch.messages.every(isMessage)
+}
+
+/**
+ * Check the shape of a chat sent by a client
+ * @returns The chat, or an error message describing what's wrong with it
+ */
+export function parseChatUpdate(value: unknown): ChatUpdate | string {
+  const chat = value as ChatUpdate
+  if (!chat || typeof chat !== 'object') return 'A chat is required'
+  if (!isChatId(chat.id)) return 'Chat ids may only contain letters, numbers, - and _'
+  if (typeof chat.name !== 'string') return 'Chat name must be a string'
+  if (chat.nameSource !== undefined && chat.nameSource !== 'auto' && chat.nameSource !== 'user') {
+    return "nameSource must be 'auto' or 'user'"
+  }
+  if (chat.threadId !== null && typeof chat.threadId !== 'string') return 'threadId must be a string or null'
+  if (chat.libraryId !== undefined && typeof chat.libraryId !== 'string') return 'libraryId must be a string'
+  if (chat.pinned !== undefined && typeof chat.pinned !== 'boolean') return 'pinned must be true or false'
+  if (chat.tags !== undefined && !(Array.isArray(chat.tags) && chat.tags.every(tag => typeof tag === 'string'))) {
+    return 'tags must be a list of strings'
+  }
+  if (!Array.isArray(chat.messages) || !chat.messages.every(isMessage)) return 'Chat messages are malformed'
+  if (chat.branches !== undefined && !(Array.isArray(chat.branches) && chat.branches.every(isBranch))) {
+    return 'Chat branches are malformed'
+  }
+  if (typeof chat.createdAt !== 'string') return 'createdAt must be an ISO timestamp'
+  if (!Number.isInteger(chat.version) || chat.version < 0) return 'version must be a whole number'
+
+  return {
+    id: chat.id,
+    name: chat.name,
+    nameSource: chat.nameSource,
+    threadId: chat.threadId,
+    libraryId: chat.libraryId,
+    pinned: chat.pinned,
+    tags: chat.tags,
+    messages: chat.messages,
+    branches: chat.branches,
+    createdAt: chat.createdAt,
+    version: chat.version,
+  }
+}
+
+/**
+ * Check whether a value names a registered chat store
+ */
+export function isChatStoreProvider(value: unknown): value is ChatStoreProvider {
+  return typeof value === 'string' && Object.hasOwn(providers, value)
+}
+
+/**
+ * Get the provider configured through CHAT_STORE (defaults to 'file')
+ */
+export function getDefaultProvider(): ChatStoreProvider {
+  const configured = process.env.CHAT_STORE
+  return isChatStoreProvider(configured) ? configured : 'file'
+}
+
+/**
+ * Get a user's chat store for the specified provider
+ * @param userId - Whose chats to read and write; users never see each other's
+ * @param provider - The chat store to use (defaults to CHAT_STORE)
+ */
+export function getChatStore(
+  userId: string,
+  provider: ChatStoreProvider = getDefaultProvider()
+): ChatStore {
+  const createStore = providers[provider]
+
+  if (!createStore) {
+    throw new Error(`Unknown chat store: ${provider}`)
+  }
+
+  return createStore(userId)
+}
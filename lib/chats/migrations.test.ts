@@ -0,0 +1,28 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { CHATS_SCHEMA_VERSION, migrateSavedChats, toSavedChats } from './migrations'
+
+test('chats saved before the schema had a version are upgraded', () => {
+  assert.deepEqual(migrateSavedChats([{ id: 'a', name: 'Justice' }]), [
+    { id: 'a', name: 'Justice', pinned: false, tags: [] },
+  ])
+  assert.deepEqual(migrateSavedChats({ version: 1, chats: [{ id: 'a', pinned: 'yes', tags: 'x' }] }), [
+    { id: 'a', pinned: false, tags: [] },
+  ])
+})
+
+test('current chats round-trip unchanged', () => {
+  const chats = [{ id: 'a', pinned: true, tags: ['ethics'] }]
+  assert.deepEqual(migrateSavedChats(JSON.parse(JSON.stringify(toSavedChats(chats)))), chats)
+})
+
+test('chats saved by a newer page are read as they are', () => {
+  const chats = [{ id: 'a', pinned: true, tags: [], colour: 'blue' }]
+  assert.deepEqual(migrateSavedChats({ version: CHATS_SCHEMA_VERSION + 1, chats }), chats)
+})
+
+test('anything else is refused', () => {
+  assert.throws(() => migrateSavedChats(null), /not in a known format/)
+  assert.throws(() => migrateSavedChats({ version: 2 }), /not in a known format/)
+  assert.throws(() => migrateSavedChats({ version: 0, chats: [] }), /No migration from saved chats version 0/)
+})
@@ -0,0 +1,65 @@
+/**
+ * Saved Chat Migrations (client)
+ *
+ * The page keeps its chats in localStorage as { version, chats }. Whenever
+ * the saved shape changes, CHATS_SCHEMA_VERSION goes up by one and a
+ * migration from the previous version is added below, so chats saved by
+ * any earlier version of the page still load. Version 1 is the bare array
+ * of chats saved before the schema had a version.
+ *
+ * Migrations work on plain JSON; turning timestamps back into Dates is left
+ * to the page.
+ */
+
+export const CHATS_SCHEMA_VERSION = 2
+
+type SavedChat = Record<string, unknown>
+
+export interface SavedChats {
+  version: number
+  chats: SavedChat[]
+}
+
+// Migrations by the version they upgrade from
+const migrations: Record<number, (chats: SavedChat[]) => SavedChat[]> = {
+  // 2: chats can be pinned and tagged
+  1: chats => chats.map(chat => ({
+    ...chat,
+    pinned: chat.pinned === true,
+    tags: Array.isArray(chat.tags) ? chat.tags : [],
+  })),
+}
+
+/**
+ * Bring saved chats of any version up to the current schema
+ * @param data - The parsed contents of localStorage
+ */
+export function migrateSavedChats(data: unknown): SavedChat[] {
+  let saved: SavedChats
+  if (Array.isArray(data)) {
+    saved = { version: 1, chats: data }
+  } else if (data && typeof data === 'object' && Array.isArray((data as SavedChats).chats)) {
+    saved = data as SavedChats
+  } else {
+    throw new Error('Saved chats are not in a known format')
+  }
+
+  // Saved by a newer page (e.g. in another tab after an update): its
+  // changes are additive, so read it as it is rather than lose it
+  let { version, chats } = saved
+  while (version < CHATS_SCHEMA_VERSION) {
+    const migrate = migrations[version]
+    if (!migrate) throw new Error(`No migration from saved chats version ${version}`)
+    chats = migrate(chats)
+    version++
+  }
+
+  return chats
+}
+
+/**
+ * Wrap chats for saving with the current schema version
+ */
+export function toSavedChats<T>(chats: T[]): { version: number; chats: T[] } {
+  return { version: CHATS_SCHEMA_VERSION, chats }
+}
@@ -0,0 +1,66 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ChatSearchIndex, SearchableChat } from './search'
+
+const chats: SearchableChat[] = [
+  {
+    id: 'stoics',
+    messages: [
+      { id: 'q1', content: 'Who was Epictète?' },
+      {
+        id: 'a1',
+        content: 'Epictetus was a Stoic philosopher who taught that some things are up to us.',
+        citations: [{ index: 1, fileId: 'f1', filename: 'Enchiridion.pdf', startIndex: 0, endIndex: 3 }],
+      },
+    ],
+  },
+  {
+    id: 'plato',
+    messages: [{ id: 'a2', content: 'Plato wrote the Republic.', sources: ['Republic.pdf'] }],
+  },
+]
+
+function index(): ChatSearchIndex {
+  const search = new ChatSearchIndex()
+  search.update(chats)
+  return search
+}
+
+test('accents and case are ignored', () => {
+  const results = index().search('EPICTETE')
+  assert.deepEqual(results.map(r => r.messageId), ['q1'])
+  const [start, end] = results[0].snippet.highlights[0]
+  assert.equal(results[0].snippet.text.slice(start, end), 'Epictète')
+})
+
+test('every term must match and the last one matches as a prefix', () => {
+  assert.deepEqual(index().search('stoic philo').map(r => r.messageId), ['a1'])
+  assert.deepEqual(index().search('plato stoic'), [])
+})
+
+test('cited filenames are searched', () => {
+  const results = index().search('republic')
+  assert.deepEqual(results.map(r => r.messageId), ['a2'])
+  assert.deepEqual(results[0].sources, [{ text: 'Republic.pdf', highlights: [[0, 8]] }])
+  assert.deepEqual(index().search('enchiridion').map(r => r.chatId), ['stoics'])
+})
+
+test('updates re-index changed messages and drop removed ones', () => {
+  const search = index()
+  search.update([
+    { id: 'stoics', messages: [{ id: 'q1', content: 'Who was Seneca?' }] },
+  ])
+  assert.deepEqual(search.search('epictete'), [])
+  assert.deepEqual(search.search('plato'), [])
+  assert.deepEqual(search.search('seneca').map(r => r.messageId), ['q1'])
+})
+
+test('long messages are cut around the first hit', () => {
+  const content = `${'word '.repeat(100)}needle ${'word '.repeat(100)}`
+  const search = new ChatSearchIndex()
+  search.update([{ id: 'c', messages: [{ id: 'm', content }] }])
+  const { snippet } = search.search('needle')[0]
+  assert.ok(snippet.text.startsWith('…') && snippet.text.endsWith('…'))
+  const [start, end] = snippet.highlights[0]
+  assert.equal(snippet.text.slice(start, end), 'needle')
+})
@@ -0,0 +1,265 @@
+/**
+ * Chat Search (client)
+ *
+ * Full-text search over every saved chat: the text of each message and the
+ * filenames its answer cited. The page keeps an inverted index (term to the
+ * messages containing it) and updates it whenever it saves chats. Only
+ * messages that changed since the last update are re-indexed, so updating
+ * while an answer streams in stays cheap.
+ *
+ * Terms are lowercased with accents removed, so "epictete" finds
+ * "Epictète". Every term in a query must match, and the last one also
+ * matches as a prefix so results show up while typing. Results are ranked
+ * by tf-idf, with hits in cited filenames counting extra.
+ */
+
+import { Citation, citedFilenames } from '@/lib/chat/citations'
+
+export interface SearchableMessage {
+  id: string
+  content: string
+  sources?: string[]
+  citations?: Citation[]
+}
+
+export interface SearchableChat {
+  id: string
+  messages: SearchableMessage[]
+}
+
+// Text with the character ranges ([start, end)) that matched the query
+export interface Snippet {
+  text: string
+  highlights: Array<[number, number]>
+}
+
+export interface SearchResult {
+  chatId: string
+  messageId: string
+  score: number
+  // The part of the message around the first hit
+  snippet: Snippet
+  // Cited filenames that matched
+  sources: Snippet[]
+}
+
+interface Token {
+  term: string
+  start: number
+  end: number
+}
+
+interface IndexedMessage {
+  chatId: string
+  messageId: string
+  content: string
+  sources: string[]
+  // Weight of each term in this message
+  terms: Map<string, number>
+}
+
+// A hit in a cited filename counts as much as this many hits in the text
+const SOURCE_WEIGHT = 3
+
+// Characters of context kept before and after the first hit in a snippet
+const SNIPPET_BEFORE = 60
+const SNIPPET_AFTER = 140
+
+const DEFAULT_LIMIT = 50
+
+// Lowercase a character and drop its accents; combining marks fold to ''
+function fold(char: string): string {
+  if (char.charCodeAt(0) < 128) return char.toLowerCase()
+  return char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+}
+
+// Letters (in any script with case), digits, and CJK and other uncased scripts
+function isTermChar(char: string): boolean {
+  return /[0-9a-z]/.test(char) || char.toLowerCase() !== char.toUpperCase() || char.charCodeAt(0) >= 0x2e80
+}
+
+/**
+ * Split text into folded terms, with where each one sits in the original text
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let term = ''
+  let start = 0
+
+  for (let i = 0; i < text.length; i++) {
+    const folded = fold(text[i])
+    if (folded && isTermChar(folded[0])) {
+      if (!term) start = i
+      term += folded
+    } else if (!folded && term) {
+      // A combining accent inside a word
+      continue
+    } else if (term) {
+      tokens.push({ term, start, end: i })
+      term = ''
+    }
+  }
+  if (term) tokens.push({ term, start, end: text.length })
+
+  return tokens
+}
+
+function key(chatId: string, messageId: string): string {
+  return `${chatId}\u0000${messageId}`
+}
+
+// Files a message cited; older saved chats only have sources
+function messageSources(message: SearchableMessage): string[] {
+  return message.citations?.length ? citedFilenames(message.citations) : message.sources || []
+}
+
+function sameSources(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((source, i) => source === b[i])
+}
+
+// Ranges of text whose terms match the query terms (the last as a prefix)
+function findHighlights(text: string, terms: string[]): Array<[number, number]> {
+  const last = terms[terms.length - 1]
+  return tokenize(text)
+    .filter(token => terms.includes(token.term) || token.term.startsWith(last))
+    .map(token => [token.start, token.end])
+}
+
+// Cut a snippet around the first highlight, on word boundaries
+function makeSnippet(text: string, highlights: Array<[number, number]>): Snippet {
+  const first = highlights[0]?.[0] ?? 0
+  let start = Math.max(0, first - SNIPPET_BEFORE)
+  let end = Math.min(text.length, first + SNIPPET_AFTER)
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end)
+    if (space > first) end = space
+  }
+
+  const prefix = start > 0 ? '…' : ''
+  const suffix = end < text.length ? '…' : ''
+  const shift = prefix.length - start
+  return {
+    // One space per whitespace character keeps the highlights in place
+    text: prefix + text.slice(start, end).replace(/\s/g, ' ') + suffix,
+    highlights: highlights
+      .filter(([s, e]) => s >= start && e <= end)
+      .map(([s, e]) => [s + shift, e + shift]),
+  }
+}
+
+export class ChatSearchIndex {
+  private messages = new Map<string, IndexedMessage>()
+  // Term -> message key -> weight
+  private postings = new Map<string, Map<string, number>>()
+
+  private add(message: IndexedMessage): void {
+    const id = key(message.chatId, message.messageId)
+    this.messages.set(id, message)
+    message.terms.forEach((weight, term) => {
+      let postings = this.postings.get(term)
+      if (!postings) {
+        postings = new Map()
+        this.postings.set(term, postings)
+      }
+      postings.set(id, weight)
+    })
+  }
+
+  private remove(id: string): void {
+    const message = this.messages.get(id)
+    if (!message) return
+    message.terms.forEach((_weight, term) => {
+      const postings = this.postings.get(term)
+      postings?.delete(id)
+      if (postings?.size === 0) this.postings.delete(term)
+    })
+    this.messages.delete(id)
+  }
+
+  /**
+   * Bring the index in line with the current chats, re-indexing only the
+   * messages that were added, changed or removed
+   */
+  update(chats: SearchableChat[]): void {
+    const seen = new Set<string>()
+
+    for (const chat of chats) {
+      for (const message of chat.messages) {
+        const id = key(chat.id, message.id)
+        const sources = messageSources(message)
+        seen.add(id)
+
+        const indexed = this.messages.get(id)
+        if (indexed && indexed.content === message.content && sameSources(indexed.sources, sources)) continue
+        this.remove(id)
+
+        const terms = new Map<string, number>()
+        for (const token of tokenize(message.content)) {
+          terms.set(token.term, (terms.get(token.term) || 0) + 1)
+        }
+        for (const token of sources.flatMap(tokenize)) {
+          terms.set(token.term, (terms.get(token.term) || 0) + SOURCE_WEIGHT)
+        }
+        this.add({ chatId: chat.id, messageId: message.id, content: message.content, sources, terms })
+      }
+    }
+
+    Array.from(this.messages.keys())
+      .filter(id => !seen.has(id))
+      .forEach(id => this.remove(id))
+  }
+
+  /**
+   * Find the messages matching every term of a query, best first
+   */
+  search(query: string, limit = DEFAULT_LIMIT): SearchResult[] {
+    const terms = Array.from(new Set(tokenize(query).map(token => token.term)))
+    if (terms.length === 0) return []
+
+    let scores: Map<string, number> | null = null
+    for (let i = 0; i < terms.length; i++) {
+      const term = terms[i]
+      // The last term is still being typed
+      const matching = i === terms.length - 1
+        ? Array.from(this.postings.keys()).filter(candidate => candidate.startsWith(term))
+        : this.postings.has(term) ? [term] : []
+
+      const termScores = new Map<string, number>()
+      for (const candidate of matching) {
+        const postings = this.postings.get(candidate)!
+        const idf = Math.log(1 + this.messages.size / postings.size)
+        postings.forEach((weight, id) => {
+          termScores.set(id, (termScores.get(id) || 0) + weight * idf)
+        })
+      }
+
+      const previous: Map<string, number> | null = scores
+      const next = new Map<string, number>()
+      termScores.forEach((score, id) => {
+        if (!previous) {
+          next.set(id, score)
+        } else if (previous.has(id)) {
+          next.set(id, previous.get(id)! + score)
+        }
+      })
+      scores = next
+    }
+
+    return Array.from(scores || [])
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, limit)
+      .map(([id, score]) => {
+        const message = this.messages.get(id)!
+        return {
+          chatId: message.chatId,
+          messageId: message.messageId,
+          score,
+          snippet: makeSnippet(message.content, findHighlights(message.content, terms)),
+          sources: message.sources
+            .map(source => ({ text: source, highlights: findHighlights(source, terms) }))
+            .filter(source => source.highlights.length > 0),
+        }
+      })
+  }
+}
@@ -0,0 +1,91 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { fromServer, isDirty, mergeChats, resolveConflict, SyncableChat } from './sync'
+import type { StoredChat } from './index'
+
+function stored(id: string, messageIds: string[], version: number): StoredChat {
+  return {
+    id,
+    name: `Chat ${id}`,
+    threadId: null,
+    messages: messageIds.map(messageId => ({
+      id: messageId,
+      role: 'user',
+      content: messageId,
+      timestamp: '2024-05-01T10:00:00.000Z',
+    })),
+    createdAt: `2024-05-0${version}T10:00:00.000Z`,
+    updatedAt: '2024-05-01T10:00:00.000Z',
+    version,
+  }
+}
+
+function revive(chat: StoredChat): SyncableChat {
+  return {
+    id: chat.id,
+    name: chat.name,
+    messages: chat.messages.map(message => ({ id: message.id })),
+    createdAt: new Date(chat.createdAt),
+  }
+}
+
+// A chat synced at a version, then given more messages locally
+function local(id: string, messageIds: string[], version: number, synced: string[] = messageIds): SyncableChat {
+  const chat = fromServer(stored(id, synced, version), revive)
+  return { ...chat, messages: messageIds.map(messageId => ({ id: messageId })) }
+}
+
+test('a chat is dirty once it differs from what was synced', () => {
+  assert.equal(isDirty(local('a', ['1'], 1)), false)
+  assert.equal(isDirty(local('a', ['1', '2'], 1, ['1'])), true)
+  assert.equal(isDirty(revive(stored('a', ['1'], 1))), true)
+})
+
+test('local additions are rebased onto the server version', () => {
+  const [kept, ...rest] = resolveConflict(local('a', ['1', '2'], 1, ['1']), stored('a', ['1'], 2), revive)
+  assert.equal(rest.length, 0)
+  assert.equal(kept.version, 2)
+  assert.deepEqual(kept.messages.map(m => m.id), ['1', '2'])
+})
+
+test("the server's copy wins when it only adds to ours", () => {
+  const chat = { ...local('a', ['1'], 1), name: 'Renamed here' }
+  const [kept, ...rest] = resolveConflict(chat, stored('a', ['1', '2'], 2), revive)
+  assert.equal(rest.length, 0)
+  assert.deepEqual(kept.messages.map(m => m.id), ['1', '2'])
+  assert.equal(isDirty(kept), false)
+})
+
+test('diverged chats are both kept, ours as a new unsynced chat', () => {
+  const [remote, copy] = resolveConflict(local('a', ['1', 'mine'], 1, ['1']), stored('a', ['1', 'theirs'], 2), revive)
+  assert.equal(remote.id, 'a')
+  assert.deepEqual(remote.messages.map(m => m.id), ['1', 'theirs'])
+  assert.notEqual(copy.id, 'a')
+  assert.equal(copy.name, 'Chat a (this device)')
+  assert.equal(copy.version, undefined)
+  assert.deepEqual(copy.messages.map(m => m.id), ['1', 'mine'])
+})
+
+test('merging keeps new chats, drops chats deleted elsewhere and adds chats from other devices', () => {
+  const merged = mergeChats(
+    [
+      revive(stored('new', ['1'], 1)),
+      local('deleted', ['1'], 1),
+      local('changed-then-deleted', ['1', '2'], 1, ['1']),
+      local('behind', ['1'], 1),
+      local('same', ['1'], 2),
+    ],
+    [stored('behind', ['1', '2'], 3), stored('same', ['1'], 2), stored('other', ['1'], 4)],
+    revive
+  )
+
+  const byId = new Map(merged.map(chat => [chat.id, chat]))
+  assert.deepEqual(merged.map(chat => chat.id).sort(), ['behind', 'changed-then-deleted', 'new', 'other', 'same'])
+  assert.equal(byId.get('new')!.version, undefined)
+  assert.equal(byId.get('changed-then-deleted')!.version, undefined)
+  assert.equal(byId.get('behind')!.version, 3)
+  assert.deepEqual(byId.get('behind')!.messages.map(m => m.id), ['1', '2'])
+  assert.equal(byId.get('other')!.version, 4)
+  // Newest first
+  assert.equal(merged[0].id, 'other')
+})
@@ -0,0 +1,217 @@
+/**
+ * Chat Sync (client)
+ *
+ * The page keeps working from localStorage and syncs with /api/chats in
+ * the background. Each local chat remembers the server version it is based
+ * on and a hash of its content at that point, which tells us whether it
+ * has unsynced changes. Chats that have never been synced (including every
+ * chat saved before sync existed) are uploaded the first time we reach the
+ * server, which doubles as the one-time import of localStorage.
+ *
+ * When the server has moved on while we also changed a chat, the two are
+ * reconciled by their messages: if one side only adds messages to the
+ * other, the longer one wins; if both added different messages, the
+ * server's copy is kept and ours is saved alongside it as a new chat.
+ */
+
+import type { StoredChat } from './index'
+
+export interface SyncableChat {
+  id: string
+  name: string
+  messages: Array<{ id: string }>
+  createdAt: Date
+  // Server version this copy is based on; missing until first synced
+  version?: number
+  updatedAt?: string
+  // Content hash when last synced; differs from the current hash when dirty
+  syncedHash?: string
+}
+
+export type ChatFromServer<T extends SyncableChat> = (chat: StoredChat) => T
+
+// Everything but the sync state, with keys sorted so that a chat hashes the
+// same before and after a round trip through the server
+function content(chat: SyncableChat): string {
+  const { version, updatedAt, syncedHash, ...rest } = chat
+  return JSON.stringify(rest, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : value
+  )
+}
+
+// Cheap string hash (FNV-1a); only compared against itself
+function hash(text: string): string {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return (h >>> 0).toString(36) + text.length.toString(36)
+}
+
+/**
+ * Hash of everything in a chat that syncs
+ */
+export function contentHash(chat: SyncableChat): string {
+  return hash(content(chat))
+}
+
+/**
+ * Whether a chat has changes the server hasn't seen
+ */
+export function isDirty(chat: SyncableChat): boolean {
+  return chat.syncedHash !== contentHash(chat)
+}
+
+/**
+ * A chat as it came from the server, marked as in sync
+ */
+export function fromServer<T extends SyncableChat>(chat: StoredChat, revive: ChatFromServer<T>): T {
+  const local = revive(chat)
+  return { ...local, version: chat.version, updatedAt: chat.updatedAt, syncedHash: contentHash(local) }
+}
+
+/**
+ * The body to send for a local chat
+ */
+export function toServer(chat: SyncableChat): Omit<StoredChat, 'updatedAt'> {
+  const { updatedAt, syncedHash, ...rest } = chat
+  return JSON.parse(JSON.stringify({ ...rest, version: chat.version || 0 }))
+}
+
+function isPrefix(shorter: Array<{ id: string }>, longer: Array<{ id: string }>): boolean {
+  return shorter.length <= longer.length && shorter.every((m, i) => m.id === longer[i].id)
+}
+
+/**
+ * Reconcile a chat changed both here and on the server
+ * @returns The chats to keep in place of the local one
+ */
+export function resolveConflict<T extends SyncableChat>(
+  local: T,
+  server: StoredChat,
+  revive: ChatFromServer<T>
+): T[] {
+  const remote = fromServer(server, revive)
+
+  // We only added to what the server has: rebase onto its version and push again
+  if (isPrefix(remote.messages, local.messages)) {
+    return [{ ...local, version: remote.version, updatedAt: remote.updatedAt }]
+  }
+
+  // The server only added to what we have: take its copy
+  if (isPrefix(local.messages, remote.messages)) {
+    return [remote]
+  }
+
+  // Both sides added different messages: keep both
+  const copy: T = {
+    ...local,
+    id: `${local.id}-${Date.now().toString(36)}`,
+    name: `${local.name} (this device)`,
+    version: undefined,
+    updatedAt: undefined,
+    syncedHash: undefined,
+  }
+  return [remote, copy]
+}
+
+/**
+ * Merge the server's chats into the local list
+ */
+export function mergeChats<T extends SyncableChat>(
+  local: T[],
+  server: StoredChat[],
+  revive: ChatFromServer<T>
+): T[] {
+  const serverById = new Map(server.map(chat => [chat.id, chat]))
+  const merged: T[] = []
+
+  for (const chat of local) {
+    const remote = serverById.get(chat.id)
+    serverById.delete(chat.id)
+
+    if (!remote) {
+      if (!chat.version) {
+        // Never synced: it will be uploaded
+        merged.push(chat)
+      } else if (isDirty(chat)) {
+        // Deleted elsewhere while we changed it: upload it again
+        merged.push({ ...chat, version: undefined, updatedAt: undefined })
+      }
+      // Otherwise it was deleted on another device
+      continue
+    }
+
+    if (remote.version === chat.version) {
+      merged.push(chat)
+    } else if (!isDirty(chat)) {
+      merged.push(fromServer(remote, revive))
+    } else {
+      merged.push(...resolveConflict(chat, remote, revive))
+    }
+  }
+
+  // Chats started on other devices
+  serverById.forEach(remote => merged.push(fromServer(remote, revive)))
+
+  return merged.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+}
+
+/**
+ * Fetch every chat from the server
+ * @returns The chats, or null if the server couldn't be reached
+ */
+export async function fetchChats(): Promise<StoredChat[] | null> {
+  try {
+    const response = await fetch('/api/chats')
+    if (!response.ok) return null
+    const data = await response.json()
+    return Array.isArray(data.chats) ? data.chats : null
+  } catch (e) {
+    return null
+  }
+}
+
+export type PushResult =
+  | { status: 'saved'; chat: StoredChat }
+  // The server has a different version; current is null if it was deleted there
+  | { status: 'conflict'; current: StoredChat | null }
+  | { status: 'failed' }
+
+/**
+ * Upload a chat, based on the server version it remembers
+ */
+export async function pushChat(chat: SyncableChat): Promise<PushResult> {
+  try {
+    const response = await fetch(`/api/chats/${encodeURIComponent(chat.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ chat: toServer(chat) }),
+    })
+    const data = await response.json()
+
+    if (response.ok) return { status: 'saved', chat: data.chat }
+    if (response.status === 409) return { status: 'conflict', current: data.chat || null }
+    console.error('Failed to sync chat:', data.error)
+    return { status: 'failed' }
+  } catch (e) {
+    return { status: 'failed' }
+  }
+}
+
+/**
+ * Remove a chat from the server (failures are logged and otherwise ignored)
+ */
+export async function deleteServerChat(chatId: string): Promise<void> {
+  try {
+    const response = await fetch(`/api/chats/${encodeURIComponent(chatId)}`, { method: 'DELETE' })
+    if (!response.ok && response.status !== 404) {
+      console.error('Failed to delete chat on the server:', response.status)
+    }
+  } catch (e) {
+    console.error('Failed to delete chat on the server:', e)
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Languages
+ *
+ * The languages Philo can listen and answer in. A language setting of
+ * 'auto' lets Whisper detect what was said; otherwise transcription is told
+ * the language up front, answers are written in it and the TTS providers
+ * pick a voice for it. Shared by the page and the API routes, so it must
+ * not import anything server-only.
+ */
+
+export const LANGUAGES = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+] as const
+
+// ISO 639-1 code, as Whisper and ElevenLabs take them
+export type LanguageCode = typeof LANGUAGES[number]['code']
+
+export type LanguageSetting = LanguageCode | 'auto'
+
+/**
+ * Check whether a value is the code of a supported language
+ */
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return LANGUAGES.some(language => language.code === value)
+}
+
+export function isLanguageSetting(value: unknown): value is LanguageSetting {
+  return value === 'auto' || isLanguageCode(value)
+}
+
+/**
+ * The English name of a language, for prompts
+ */
+export function languageName(code: LanguageCode): string {
+  return LANGUAGES.find(language => language.code === code)!.name
+}
+
+/**
+ * The language Whisper detected, which its verbose output names in full
+ * ("french"), or null if it isn't one we support
+ */
+export function fromWhisperLanguage(name: string | undefined): LanguageCode | null {
+  const detected = name?.toLowerCase()
+  if (isLanguageCode(detected)) return detected
+  return LANGUAGES.find(language => language.name.toLowerCase() === detected)?.code ?? null
+}
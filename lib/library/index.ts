@@ -0,0 +1,93 @@
+/**
+ * Knowledge Base Library
+ *
+ * A unified interface over the document store Philo searches.
+ * Currently supports:
+ * - OpenAI vector stores (the store file_search reads from)
+ * - Local files on disk (a stand-in for offline development and testing)
+ *
+ * The provider is picked with LIBRARY_PROVIDER ('openai' by default), and
+ * each library from the registry (see registry.ts) gets its own store.
+ *
+ * To add a new provider:
+ * 1. Create a new file in lib/library/ (e.g., newprovider.ts)
+ * 2. Export a factory returning a LibraryStore
+ * 3. Add the provider to the LibraryProvider type and providers object below
+ */
+
+export type LibraryProvider = 'openai' | 'local'
+
+export type IndexingStatus = 'in_progress' | 'completed' | 'failed' | 'cancelled'
+
+export interface LibraryFile {
+  id: string
+  filename: string
+  bytes: number
+  // ISO timestamp of when the file was added
+  createdAt: string
+  status: IndexingStatus
+  // Why indexing failed, when it did
+  error?: string
+}
+
+export interface LibraryStatus {
+  fileCounts: Record<IndexingStatus, number> & { total: number }
+  // Storage used by the indexed content
+  bytes: number
+}
+
+export interface LibraryStore {
+  listFiles(): Promise<LibraryFile[]>
+  // Resolves to null when the file isn't in the library
+  getFile(fileId: string): Promise<LibraryFile | null>
+  uploadFile(file: File): Promise<LibraryFile>
+  // Resolves to false when the file isn't in the library
+  deleteFile(fileId: string): Promise<boolean>
+  getStatus(): Promise<LibraryStatus>
+}
+
+import { createOpenAILibraryStore } from './openai'
+import { createLocalLibraryStore } from './local'
+import { getLibrary } from './registry'
+import type { LibraryConfig } from './registry'
+
+export { DEFAULT_LIBRARY_ID, getLibraries, getLibrary, getVectorStoreId } from './registry'
+export type { LibraryConfig } from './registry'
+
+const providers: Record<LibraryProvider, (library: LibraryConfig) => LibraryStore> = {
+  openai: library => createOpenAILibraryStore(library.vectorStoreId),
+  local: library => createLocalLibraryStore(library.id),
+}
+
+/**
+ * Check whether a value names a registered library provider
+ */
+export function isLibraryProvider(value: unknown): value is LibraryProvider {
+  return typeof value === 'string' && Object.hasOwn(providers, value)
+}
+
+/**
+ * Get the provider configured through LIBRARY_PROVIDER (defaults to 'openai')
+ */
+export function getDefaultProvider(): LibraryProvider {
+  const configured = process.env.LIBRARY_PROVIDER
+  return isLibraryProvider(configured) ? configured : 'openai'
+}
+
+/**
+ * Get the store for a library
+ * @param library - The library whose files to manage (defaults to the default library)
+ * @param provider - The library provider to use (defaults to LIBRARY_PROVIDER)
+ */
+export function getLibraryStore(
+  library: LibraryConfig = getLibrary()!,
+  provider: LibraryProvider = getDefaultProvider()
+): LibraryStore {
+  const createStore = providers[provider]
+
+  if (!createStore) {
+    throw new Error(`Unknown library provider: ${provider}`)
+  }
+
+  return createStore(library)
+}
@@ -0,0 +1,92 @@
+/**
+ * Local Library (offline stand-in)
+ *
+ * Keeps uploaded files on disk under the data directory, with a JSON
+ * manifest describing them. There is no embedding step, so files are
+ * marked 'completed' as soon as they are written.
+ * Enable with LIBRARY_PROVIDER=local.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { getDataDir, readJsonFile, writeJsonFile, withFileLock } from '@/lib/storage'
+import type { LibraryFile, LibraryStatus, LibraryStore } from './index'
+
+// Ids come from config and from callers; never trust them to be path-safe
+function safeSegment(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]/g, '')
+}
+
+function countFiles(files: LibraryFile[]): LibraryStatus['fileCounts'] {
+  const counts = { in_progress: 0, completed: 0, failed: 0, cancelled: 0, total: files.length }
+  for (const file of files) {
+    counts[file.status]++
+  }
+  return counts
+}
+
+/**
+ * Create a library store that keeps files in the local data directory
+ * @param libraryId - Each library gets its own folder
+ */
+export function createLocalLibraryStore(libraryId: string): LibraryStore {
+  const libraryDir = getDataDir('library', safeSegment(libraryId))
+  const manifestPath = path.join(libraryDir, 'manifest.json')
+  const getFilePath = (fileId: string) => path.join(libraryDir, 'files', safeSegment(fileId))
+  const readManifest = () => readJsonFile<LibraryFile[]>(manifestPath, [])
+
+  return {
+    async listFiles() {
+      return readManifest()
+    },
+
+    async getFile(fileId) {
+      const files = await readManifest()
+      return files.find(f => f.id === fileId) || null
+    },
+
+    async uploadFile(file) {
+      const entry: LibraryFile = {
+        id: `file-local-${randomUUID()}`,
+        filename: file.name,
+        bytes: file.size,
+        createdAt: new Date().toISOString(),
+        status: 'completed',
+      }
+
+      const filePath = getFilePath(entry.id)
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, Buffer.from(await file.arrayBuffer()))
+
+      await withFileLock(manifestPath, async () => {
+        const files = await readManifest()
+        await writeJsonFile(manifestPath, [...files, entry])
+      })
+      return entry
+    },
+
+    async deleteFile(fileId) {
+      const removed = await withFileLock(manifestPath, async () => {
+        const files = await readManifest()
+        const remaining = files.filter(f => f.id !== fileId)
+        if (remaining.length === files.length) return false
+        await writeJsonFile(manifestPath, remaining)
+        return true
+      })
+
+      if (removed) {
+        await fs.rm(getFilePath(fileId), { force: true })
+      }
+      return removed
+    },
+
+    async getStatus() {
+      const files = await readManifest()
+      return {
+        fileCounts: countFiles(files),
+        bytes: files.reduce((sum, f) => sum + f.bytes, 0),
+      }
+    },
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * OpenAI Vector Store Library
+ *
+ * Files are uploaded to OpenAI file storage and attached to the vector
+ * store that file_search reads from. OpenAI chunks and embeds them in the
+ * background, so new files start out 'in_progress'.
+ * Documentation: https://platform.openai.com/docs/api-reference/vector-stores-files
+ */
+
+import OpenAI from 'openai'
+import type { LibraryFile, LibraryStore } from './index'
+
+// Created on first use, so offline setups can import this module without a key
+let client: OpenAI | null = null
+
+function getOpenAI(): OpenAI {
+  if (!client) {
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  }
+  return client
+}
+
+// Vector store entries don't carry filenames, so look each one up only once
+const filenameCache = new Map<string, string>()
+
+async function getFilename(fileId: string): Promise<string> {
+  const cached = filenameCache.get(fileId)
+  if (cached) return cached
+
+  try {
+    const file = await getOpenAI().files.retrieve(fileId)
+    filenameCache.set(fileId, file.filename)
+    return file.filename
+  } catch (e) {
+    // File might have been removed from storage, fall back to its id
+    return fileId
+  }
+}
+
+async function toLibraryFile(file: OpenAI.VectorStores.VectorStoreFile): Promise<LibraryFile> {
+  return {
+    id: file.id,
+    filename: await getFilename(file.id),
+    bytes: file.usage_bytes,
+    createdAt: new Date(file.created_at * 1000).toISOString(),
+    status: file.status,
+    error: file.last_error?.message,
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof OpenAI.APIError && error.status === 404
+}
+
+/**
+ * Create a library store backed by an OpenAI vector store
+ * @param vectorStoreId - The vector store file_search is attached to
+ */
+export function createOpenAILibraryStore(vectorStoreId: string): LibraryStore {
+  return {
+    async listFiles() {
+      const files: OpenAI.VectorStores.VectorStoreFile[] = []
+      for await (const file of getOpenAI().vectorStores.files.list(vectorStoreId, { limit: 100 })) {
+        files.push(file)
+      }
+      return Promise.all(files.map(toLibraryFile))
+    },
+
+    async getFile(fileId) {
+      try {
+        return await toLibraryFile(await getOpenAI().vectorStores.files.retrieve(vectorStoreId, fileId))
+      } catch (error) {
+        if (isNotFound(error)) return null
+        throw error
+      }
+    },
+
+    async uploadFile(file) {
+      const uploaded = await getOpenAI().files.create({ file, purpose: 'assistants' })
+      filenameCache.set(uploaded.id, uploaded.filename)
+
+      // Attaching starts indexing; callers poll getFile for progress
+      const attached = await getOpenAI().vectorStores.files.create(vectorStoreId, {
+        file_id: uploaded.id,
+      })
+      return toLibraryFile(attached)
+    },
+
+    async deleteFile(fileId) {
+      try {
+        await getOpenAI().vectorStores.files.del(vectorStoreId, fileId)
+      } catch (error) {
+        if (isNotFound(error)) return false
+        throw error
+      }
+
+      // Also remove the underlying upload so it stops counting against storage
+      try {
+        await getOpenAI().files.del(fileId)
+      } catch (error) {
+        if (!isNotFound(error)) throw error
+      }
+      filenameCache.delete(fileId)
+      return true
+    },
+
+    async getStatus() {
+      const store = await getOpenAI().vectorStores.retrieve(vectorStoreId)
+      return {
+        fileCounts: store.file_counts,
+        bytes: store.usage_bytes,
+      }
+    },
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Library Registry
+ *
+ * One deployment can serve several collections (e.g. philosophy,
+ * engineering, company handbooks). Each library names the vector store
+ * Philo searches for chats in that library, and can replace Philo's
+ * default instructions with its own.
+ *
+ * Libraries are configured with PHILO_LIBRARIES, a JSON array:
+ *   [{ "id": "philosophy", "name": "Philosophy", "vectorStoreId": "vs_...",
+ *      "systemPrompt": "optional instructions" }]
+ * Without it there is a single default library using OPENAI_VECTOR_STORE_ID.
+ */
+
+export interface LibraryConfig {
+  id: string
+  name: string
+  vectorStoreId: string
+  // Replaces Philo's default instructions for chats in this library
+  systemPrompt?: string
+}
+
+export const DEFAULT_LIBRARY_ID = 'default'
+
+// The vector store Philo was first set up with
+const DEFAULT_VECTOR_STORE_ID = 'vs_67f55053de9c8191a46b2a3a553a011d'
+
+/**
+ * Get the OpenAI vector store used when no libraries are configured
+ */
+export function getVectorStoreId(): string {
+  return process.env.OPENAI_VECTOR_STORE_ID || DEFAULT_VECTOR_STORE_ID
+}
+
+function parseLibraries(json: string): LibraryConfig[] {
+  let entries: unknown
+  try {
+    entries = JSON.parse(json)
+  } catch (e) {
+    throw new Error('PHILO_LIBRARIES must be a JSON array of libraries')
+  }
+
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error('PHILO_LIBRARIES must be a non-empty JSON array of libraries')
+  }
+
+  const seen = new Set<string>()
+  return entries.map((entry, i) => {
+    const { id, name, vectorStoreId, systemPrompt } = (entry || {}) as Record<string, unknown>
+    if (typeof id !== 'string' || !/^[a-z0-9_-]+$/i.test(id)) {
+      throw new Error(`PHILO_LIBRARIES[${i}] needs an id made of letters, numbers, - or _`)
+    }
+    if (seen.has(id)) {
+      throw new Error(`PHILO_LIBRARIES has more than one library with id "${id}"`)
+    }
+    if (typeof vectorStoreId !== 'string' || !vectorStoreId) {
+      throw new Error(`PHILO_LIBRARIES[${i}] ("${id}") needs a vectorStoreId`)
+    }
+    seen.add(id)
+
+    return {
+      id,
+      name: typeof name === 'string' && name ? name : id,
+      vectorStoreId,
+      systemPrompt: typeof systemPrompt === 'string' && systemPrompt ? systemPrompt : undefined,
+    }
+  })
+}
+
+let libraries: LibraryConfig[] | null = null
+
+/**
+ * Get every configured library (the first one is the default)
+ */
+export function getLibraries(): LibraryConfig[] {
+  if (!libraries) {
+    const configured = process.env.PHILO_LIBRARIES
+    libraries = configured
+      ? parseLibraries(configured)
+      : [{ id: DEFAULT_LIBRARY_ID, name: 'Philo Library', vectorStoreId: getVectorStoreId() }]
+  }
+  return libraries
+}
+
+/**
+ * Look up a library by id
+ * @param id - The library id; when omitted, the default library is returned
+ * @returns The library, or null if no library has that id
+ */
+export function getLibrary(id?: string | null): LibraryConfig | null {
+  const all = getLibraries()
+  if (!id) return all[0]
+  return all.find(library => library.id === id) || null
+}
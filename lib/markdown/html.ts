@@ -0,0 +1,89 @@
+/**
+ * Markdown to HTML
+ *
+ * Renders parsed Markdown as an HTML string for pages built outside React
+ * (the print export). All text is escaped; the only markup is what the
+ * renderer writes itself.
+ */
+
+import type { Block, Inline } from './index'
+
+export interface HtmlOptions {
+  // Markup for a citation marker; by default the marker is kept as text
+  footnote?: (index: number) => string
+}
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function inlineToHtml(nodes: Inline[], options: HtmlOptions): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return escapeHtml(node.text)
+      case 'strong':
+        return `<strong>${inlineToHtml(node.children, options)}</strong>`
+      case 'em':
+        return `<em>${inlineToHtml(node.children, options)}</em>`
+      case 'del':
+        return `<del>${inlineToHtml(node.children, options)}</del>`
+      case 'code':
+        return `<code>${escapeHtml(node.text)}</code>`
+      case 'link':
+        return `<a href="${escapeHtml(node.href)}">${inlineToHtml(node.children, options)}</a>`
+      case 'footnote':
+        return options.footnote ? options.footnote(node.index) : `[${node.index}]`
+      case 'break':
+        return '<br>'
+    }
+  }).join('')
+}
+
+function alignAttribute(align: string | null): string {
+  return align ? ` style="text-align: ${align}"` : ''
+}
+
+/**
+ * Render parsed Markdown as HTML
+ */
+export function markdownToHtml(blocks: Block[], options: HtmlOptions = {}, tight = false): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'paragraph':
+        // Paragraphs in tight list items render without their own spacing
+        return tight ? inlineToHtml(block.children, options) : `<p>${inlineToHtml(block.children, options)}</p>`
+      case 'heading':
+        return `<h${block.level}>${inlineToHtml(block.children, options)}</h${block.level}>`
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul'
+        const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : ''
+        const items = block.items.map(item => `<li>${markdownToHtml(item, options, !block.loose)}</li>`)
+        return `<${tag}${start}>${items.join('')}</${tag}>`
+      }
+      case 'blockquote':
+        return `<blockquote>${markdownToHtml(block.children, options)}</blockquote>`
+      case 'code':
+        return `<pre><code>${escapeHtml(block.text)}</code></pre>`
+      case 'table': {
+        const header = block.header.map((cell, column) =>
+          `<th${alignAttribute(block.align[column])}>${inlineToHtml(cell, options)}</th>`
+        )
+        const rows = block.rows.map(row => `<tr>${row.map((cell, column) =>
+          `<td${alignAttribute(block.align[column])}>${inlineToHtml(cell, options)}</td>`
+        ).join('')}</tr>`)
+        return `<table><thead><tr>${header.join('')}</tr></thead><tbody>${rows.join('')}</tbody></table>`
+      }
+      case 'rule':
+        return '<hr>'
+    }
+  }).join('\n')
+}
@@ -0,0 +1,70 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseInline } from './index'
+
+test('unmatched delimiters stay as text', () => {
+  assert.deepEqual(parseInline('**bold'), [{ type: 'text', text: '**bold' }])
+  assert.deepEqual(parseInline('a * b'), [{ type: 'text', text: 'a * b' }])
+  assert.deepEqual(parseInline('~~gone `code'), [{ type: 'text', text: '~~gone `code' }])
+  assert.deepEqual(parseInline('[label](target'), [{ type: 'text', text: '[label](target' }])
+})
+
+test('an unmatched delimiter does not stop later emphasis', () => {
+  assert.deepEqual(parseInline('** a *b*'), [
+    { type: 'text', text: '** a ' },
+    { type: 'em', children: [{ type: 'text', text: 'b' }] },
+  ])
+})
+
+test('snake_case is not emphasis', () => {
+  assert.deepEqual(parseInline('use snake_case_names'), [{ type: 'text', text: 'use snake_case_names' }])
+})
+
+test('nested emphasis', () => {
+  assert.deepEqual(parseInline('**bold *and italic* text**'), [
+    {
+      type: 'strong',
+      children: [
+        { type: 'text', text: 'bold ' },
+        { type: 'em', children: [{ type: 'text', text: 'and italic' }] },
+        { type: 'text', text: ' text' },
+      ],
+    },
+  ])
+  assert.deepEqual(parseInline('_a ~~b **c**~~_'), [
+    {
+      type: 'em',
+      children: [
+        { type: 'text', text: 'a ' },
+        {
+          type: 'del',
+          children: [
+            { type: 'text', text: 'b ' },
+            { type: 'strong', children: [{ type: 'text', text: 'c' }] },
+          ],
+        },
+      ],
+    },
+  ])
+})
+
+test('links nested too deeply are left as text', () => {
+  const text = '['.repeat(40) + 'a' + '](https://a.co)'.repeat(40)
+  let depth = 0
+  let nodes = parseInline(text)
+  while (nodes[0]?.type === 'link') {
+    nodes = nodes[0].children
+    depth++
+  }
+  assert.ok(depth > 1 && depth < 40, `nested ${depth} deep`)
+  assert.equal(nodes[0]?.type, 'text')
+})
+
+test('many unmatched delimiters parse in linear time', () => {
+  for (const unit of ['**a ', '*a ', '_a ', '~~a ', '[a](', '[', '<']) {
+    const started = Date.now()
+    const text = unit.repeat(16000)
+    assert.deepEqual(parseInline(text), [{ type: 'text', text }])
+    assert.ok(Date.now() - started < 1000, `${JSON.stringify(unit)} took ${Date.now() - started} ms`)
+  }
+})
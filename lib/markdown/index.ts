@@ -0,0 +1,487 @@
+/**
+ * Markdown
+ *
+ * A small Markdown parser for answers. It turns text into a tree of blocks
+ * and inline nodes which the page renders as React elements (and the print
+ * export as HTML), so nothing in an answer is ever inserted as markup:
+ * raw HTML stays text, and links only keep http(s) and mailto targets.
+ *
+ * Supported: headings, paragraphs, bullet and numbered lists (nested),
+ * block quotes, fenced code, tables, horizontal rules, bold, italics,
+ * strikethrough, inline code, links, autolinks and citation footnotes ([n]).
+ * Single newlines inside a paragraph are kept as line breaks, the way chat
+ * answers are written. Unclosed syntax in a half-streamed answer shows as
+ * plain text until the rest arrives.
+ */
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: Inline[] }
+  | { type: 'em'; children: Inline[] }
+  | { type: 'del'; children: Inline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: Inline[] }
+  // A citation marker such as [2]
+  | { type: 'footnote'; index: number }
+  | { type: 'break' }
+
+export type Alignment = 'left' | 'center' | 'right' | null
+
+export type Block =
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'heading'; level: number; children: Inline[] }
+  // Loose lists had blank lines between items and render their paragraphs spaced out
+  | { type: 'list'; ordered: boolean; start: number; loose: boolean; items: Block[][] }
+  | { type: 'blockquote'; children: Block[] }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'table'; align: Alignment[]; header: Inline[][]; rows: Inline[][][] }
+  | { type: 'rule' }
+
+export interface ParseOptions {
+  // Which [n] markers are citations; without it, none are
+  isFootnote?: (index: number) => boolean
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)[^`]*$/
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/
+const QUOTE = /^ {0,3}> ?(.*)$/
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)(.*)$/
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/
+
+// Only these link targets survive; anything else renders as plain text
+const SAFE_HREF = /^(https?:\/\/|mailto:)/i
+
+/**
+ * Check whether a link target is safe to render
+ */
+export function isSafeHref(href: string): boolean {
+  return SAFE_HREF.test(href.trim())
+}
+
+/**
+ * Parse Markdown text into blocks
+ */
+export function parseMarkdown(text: string, options: ParseOptions = {}): Block[] {
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n')
+  return parseBlocks(lines, options)
+}
+
+function leadingSpaces(line: string): number {
+  return line.length - line.trimStart().length
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  return lines[i].includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1])
+    && lines[i + 1].includes('-')
+}
+
+// Whether a line begins a block other than a paragraph, and so ends one.
+// Numbered lists only do when they start at 1, so a line that happens to
+// begin with "1984." doesn't break a paragraph.
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i]
+  const item = line.match(LIST_ITEM)
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line)
+    || (!!item && (!/\d/.test(item[2]) || parseInt(item[2], 10) === 1))
+    || isTableStart(lines, i)
+}
+
+function isListItem(line: string): RegExpMatchArray | null {
+  return RULE.test(line) ? null : line.match(LIST_ITEM)
+}
+
+function parseBlocks(lines: string[], options: ParseOptions): Block[] {
+  const blocks: Block[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+    if (!line.trim()) {
+      i++
+      continue
+    }
+
+    const fence = line.match(FENCE)
+    if (fence) {
+      const marker = fence[1]
+      const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`)
+      const body: string[] = []
+      i++
+      while (i < lines.length && !closing.test(lines[i])) body.push(lines[i++])
+      // Skip the closing fence (missing while the answer is still streaming)
+      i++
+      blocks.push({ type: 'code', language: fence[2] || undefined, text: body.join('\n') })
+      continue
+    }
+
+    const heading = line.match(HEADING)
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length,
+        children: parseInline(heading[2] || '', options),
+      })
+      i++
+      continue
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' })
+      i++
+      continue
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = []
+      while (i < lines.length && lines[i].trim()) {
+        const quoted = lines[i].match(QUOTE)
+        // Unmarked lines continue the quote's paragraph
+        if (!quoted && startsBlock(lines, i)) break
+        body.push(quoted ? quoted[1] : lines[i])
+        i++
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(body, options) })
+      continue
+    }
+
+    if (isListItem(line)) {
+      i = parseList(lines, i, options, blocks)
+      continue
+    }
+
+    if (isTableStart(lines, i)) {
+      i = parseTable(lines, i, options, blocks)
+      continue
+    }
+
+    const body: string[] = []
+    while (i < lines.length && lines[i].trim() && (body.length === 0 || !startsBlock(lines, i))) {
+      body.push(lines[i].trim())
+      i++
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(body.join('\n'), options) })
+  }
+
+  return blocks
+}
+
+// Parse the list starting at lines[i] into blocks; returns the next line to read
+function parseList(lines: string[], i: number, options: ParseOptions, blocks: Block[]): number {
+  const first = isListItem(lines[i])!
+  const ordered = /\d/.test(first[2])
+  const items: Block[][] = []
+  let loose = false
+
+  while (i < lines.length) {
+    const item = isListItem(lines[i])
+    if (!item || /\d/.test(item[2]) !== ordered) break
+
+    const markerIndent = item[1].length
+    // Column the item's content starts at; continuation lines are indented to it
+    const contentIndent = markerIndent + item[2].length + Math.max(1, Math.min(item[3].length, 4))
+    const body = [item[4]]
+    i++
+
+    while (i < lines.length) {
+      const line = lines[i]
+      if (!line.trim()) {
+        let next = i
+        while (next < lines.length && !lines[next].trim()) next++
+        if (next < lines.length && leadingSpaces(lines[next]) >= contentIndent) {
+          body.push(...lines.slice(i, next).map(() => ''))
+          loose = true
+          i = next
+          continue
+        }
+        break
+      }
+
+      const indent = leadingSpaces(line)
+      if (indent >= contentIndent) {
+        body.push(line.slice(contentIndent))
+      } else if (isListItem(line)) {
+        // A nested list indented less than the content column, or the next item
+        if (indent <= markerIndent) break
+        body.push(line.slice(indent))
+      } else if (!startsBlock(lines, i) && body[body.length - 1].trim()) {
+        // Lazy continuation of the item's paragraph
+        body.push(line.trim())
+      } else {
+        break
+      }
+      i++
+    }
+
+    items.push(parseBlocks(body, options))
+
+    // Blank lines between items make the list loose
+    let next = i
+    while (next < lines.length && !lines[next].trim()) next++
+    const following = next < lines.length ? isListItem(lines[next]) : null
+    if (next > i && following && /\d/.test(following[2]) === ordered) {
+      loose = true
+      i = next
+    }
+  }
+
+  blocks.push({ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, loose, items })
+  return i
+}
+
+function splitRow(line: string): string[] {
+  const cells: string[] = []
+  let cell = ''
+  let row = line.trim().replace(/^\|/, '')
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1)
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|'
+      i++
+    } else if (row[i] === '|') {
+      cells.push(cell.trim())
+      cell = ''
+    } else {
+      cell += row[i]
+    }
+  }
+  cells.push(cell.trim())
+  return cells
+}
+
+// Parse the table starting at lines[i] into blocks; returns the next line to read
+function parseTable(lines: string[], i: number, options: ParseOptions, blocks: Block[]): number {
+  const header = splitRow(lines[i])
+  const align: Alignment[] = splitRow(lines[i + 1]).map(cell => {
+    const left = cell.startsWith(':')
+    const right = cell.endsWith(':')
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : null
+  })
+  i += 2
+
+  const rows: Inline[][][] = []
+  while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+    const cells = splitRow(lines[i])
+    rows.push(header.map((_, column) => parseInline(cells[column] || '', options)))
+    i++
+  }
+
+  blocks.push({
+    type: 'table',
+    align: header.map((_, column) => align[column] || null),
+    header: header.map(cell => parseInline(cell, options)),
+    rows,
+  })
+  return i
+}
+
+// ---------------------------------------------------------------------------
+// Inline
+// ---------------------------------------------------------------------------
+
+const ESCAPABLE = '\\`*_{}[]()#+-.!|~<>'
+// Sticky, so they match where parsing has got to without copying the rest
+// of the text (the flag is added at runtime; the build target predates it)
+const sticky = (pattern: RegExp) => new RegExp(pattern.source, `${pattern.flags}y`)
+const FOOTNOTE = sticky(/\[(\d+)\](?!\()/)
+const AUTOLINK = sticky(/<((?:https?:\/\/|mailto:)[^\s<>]+)>/i)
+const BARE_URL = sticky(/https?:\/\/[^\s<>"]*[^\s<>".,:;!?'")\]*_]/i)
+
+// Emphasis and links nested deeper than this are left as text, which keeps
+// parsing linear however many delimiters an answer has
+const MAX_NESTING = 16
+
+function isSpace(char: string | undefined): boolean {
+  return char === undefined || /\s/.test(char)
+}
+
+// Letters (in any script with case) and digits
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && (/[0-9]/.test(char) || char.toLowerCase() !== char.toUpperCase())
+}
+
+// Find the delimiter that closes emphasis opened at `from`, or -1. Whether
+// a delimiter can close doesn't depend on `from`.
+function findClosing(text: string, delimiter: string, from: number): number {
+  const char = delimiter[0]
+  for (let j = text.indexOf(delimiter, from); j !== -1; j = text.indexOf(delimiter, j + 1)) {
+    if (isSpace(text[j - 1])) continue
+    // A single * must not be half of a **
+    if (delimiter.length === 1 && (text[j + 1] === char || text[j - 1] === char)) continue
+    // _ only closes at the end of a word, so snake_case stays as it is
+    if (char === '_' && isWordChar(text[j + delimiter.length])) continue
+    return j
+  }
+  return -1
+}
+
+// Record the bracket matching each opening one from `from` on (-1 for
+// those left open), in one pass
+function matchBrackets(text: string, from: number, open: string, close: string, matches: Map<number, number>) {
+  const unclosed: number[] = []
+  for (let j = from; j < text.length; j++) {
+    if (text[j] === '\\') {
+      j++
+    } else if (text[j] === open) {
+      unclosed.push(j)
+    } else if (text[j] === close && unclosed.length > 0) {
+      matches.set(unclosed.pop()!, j)
+    }
+  }
+  for (const j of unclosed) matches.set(j, -1)
+}
+
+function match(pattern: RegExp, text: string, at: number): RegExpExecArray | null {
+  pattern.lastIndex = at
+  return pattern.exec(text)
+}
+
+/**
+ * Parse the inline content of a block
+ */
+export function parseInline(text: string, options: ParseOptions = {}): Inline[] {
+  return parseSpan(text, options, 0)
+}
+
+function parseSpan(text: string, options: ParseOptions, depth: number): Inline[] {
+  // Parsing only moves forward, so each search remembers its last answer:
+  // a delimiter with nothing to close it is looked for once, not once per
+  // opener
+  const searches = new Map<string, { from: number; found: number }>()
+  const findNext = (key: string, from: number, find: () => number): number => {
+    const last = searches.get(key)
+    if (last && from >= last.from && (last.found === -1 || from <= last.found)) return last.found
+    const found = find()
+    searches.set(key, { from, found })
+    return found
+  }
+  const brackets = new Map<string, Map<number, number>>()
+  const findMatching = (from: number, open: string, close: string): number => {
+    let matches = brackets.get(open)
+    if (!matches) brackets.set(open, matches = new Map())
+    if (!matches.has(from)) matchBrackets(text, from, open, close, matches)
+    return matches.get(from)!
+  }
+  const nests = depth < MAX_NESTING
+
+  const nodes: Inline[] = []
+  let buffer = ''
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer })
+    buffer = ''
+  }
+  const push = (node: Inline) => {
+    flush()
+    nodes.push(node)
+  }
+
+  let i = 0
+  while (i < text.length) {
+    const char = text[i]
+
+    if (char === '\\' && ESCAPABLE.includes(text[i + 1] || '')) {
+      buffer += text[i + 1]
+      i += 2
+      continue
+    }
+
+    if (char === '\n') {
+      push({ type: 'break' })
+      i++
+      continue
+    }
+
+    if (char === '`') {
+      let run = 1
+      while (text[i + run] === '`') run++
+      const fence = '`'.repeat(run)
+      const end = findNext(fence, i + run, () => text.indexOf(fence, i + run))
+      if (end !== -1) {
+        push({ type: 'code', text: text.slice(i + run, end).replace(/\n/g, ' ').trim() })
+        i = end + run
+      } else {
+        buffer += fence
+        i += run
+      }
+      continue
+    }
+
+    if (char === '[') {
+      const footnote = match(FOOTNOTE, text, i)
+      if (footnote && options.isFootnote?.(Number(footnote[1]))) {
+        push({ type: 'footnote', index: Number(footnote[1]) })
+        i += footnote[0].length
+        continue
+      }
+
+      const labelEnd = nests ? findMatching(i, '[', ']') : -1
+      if (labelEnd !== -1 && text[labelEnd + 1] === '(') {
+        const targetEnd = findMatching(labelEnd + 1, '(', ')')
+        if (targetEnd !== -1) {
+          const label = parseSpan(text.slice(i + 1, labelEnd), options, depth + 1)
+          // Drop an optional "title" and <angle brackets> around the target
+          const href = text.slice(labelEnd + 2, targetEnd).trim().split(/\s+/)[0].replace(/^<|>$/g, '')
+          if (isSafeHref(href)) {
+            push({ type: 'link', href, children: label })
+          } else {
+            flush()
+            nodes.push(...label)
+          }
+          i = targetEnd + 1
+          continue
+        }
+      }
+    }
+
+    if (char === '<') {
+      const autolink = match(AUTOLINK, text, i)
+      if (autolink) {
+        push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1] }] })
+        i += autolink[0].length
+        continue
+      }
+    }
+
+    if ((char === 'h' || char === 'H') && !isWordChar(text[i - 1])) {
+      const url = match(BARE_URL, text, i)
+      if (url) {
+        push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] })
+        i += url[0].length
+        continue
+      }
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      const double = text[i + 1] === char
+      if (char === '~' && !double) {
+        buffer += char
+        i++
+        continue
+      }
+
+      const delimiter = double ? char + char : char
+      const start = i + delimiter.length
+      const opens = nests
+        && !isSpace(text[start])
+        && !(char === '_' && isWordChar(text[i - 1]))
+      const end = opens ? findNext(delimiter, start, () => findClosing(text, delimiter, start)) : -1
+      if (end > start) {
+        const children = parseSpan(text.slice(start, end), options, depth + 1)
+        const type = char === '~' ? 'del' : double ? 'strong' : 'em'
+        push({ type, children })
+        i = end + delimiter.length
+        continue
+      }
+
+      buffer += delimiter
+      i += delimiter.length
+      continue
+    }
+
+    buffer += char
+    i++
+  }
+
+  flush()
+  return nodes
+}
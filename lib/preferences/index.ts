@@ -0,0 +1,80 @@
+/**
+ * User Preferences
+ *
+ * Settings that follow a user from device to device. For now that is how
+ * Philo speaks: the TTS provider, voice, model, speed and stability picked
+ * in the voice settings panel. /api/tts applies them to every answer read
+ * aloud; anything missing falls back to the deployment's defaults.
+ *
+ * Shared by the page and the API routes, so it must not import anything
+ * server-only; the store is in store.ts.
+ */
+
+import type { TTSProvider } from '@/lib/tts'
+
+export interface VoicePreferences {
+  provider?: TTSProvider
+  // Ids from the provider's catalog (see listVoices in lib/tts)
+  voice?: string
+  model?: string
+  speed?: number
+  stability?: number
+}
+
+export interface UserPreferences {
+  voice: VoicePreferences
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = { voice: {} }
+
+// The ranges the settings panel offers; providers clamp speed further
+export const SPEED_RANGE = { min: 0.5, max: 2 }
+export const STABILITY_RANGE = { min: 0, max: 1 }
+
+function isInRange(value: unknown, range: { min: number; max: number }): value is number {
+  return typeof value === 'number' && value >= range.min && value <= range.max
+}
+
+// Provider ids are letters, digits, _ and -. Voice ids end up in provider
+// URLs, so nothing else (slashes, dots) is let through.
+const ID = /^[A-Za-z0-9_-]{1,100}$/
+
+function isId(value: unknown): value is string {
+  return typeof value === 'string' && ID.test(value)
+}
+
+/**
+ * Validate voice preferences from a request body, returning an error
+ * message if they are malformed. Missing (or null) settings are left out.
+ * The provider is only checked to be a name; callers check it is registered.
+ */
+export function parseVoicePreferences(value: unknown): VoicePreferences | string {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return 'Voice preferences must be an object'
+  const { provider, voice, model, speed, stability } = value as Record<string, unknown>
+  const preferences: VoicePreferences = {}
+
+  if (provider != null) {
+    if (!isId(provider)) return 'Invalid provider'
+    preferences.provider = provider as TTSProvider
+  }
+  if (voice != null) {
+    if (!isId(voice)) return 'Invalid voice'
+    preferences.voice = voice
+  }
+  if (model != null) {
+    if (!isId(model)) return 'Invalid model'
+    preferences.model = model
+  }
+  if (speed != null) {
+    if (!isInRange(speed, SPEED_RANGE)) return `Speed must be between ${SPEED_RANGE.min} and ${SPEED_RANGE.max}`
+    preferences.speed = speed
+  }
+  if (stability != null) {
+    if (!isInRange(stability, STABILITY_RANGE)) {
+      return `Stability must be between ${STABILITY_RANGE.min} and ${STABILITY_RANGE.max}`
+    }
+    preferences.stability = stability
+  }
+
+  return preferences
+}
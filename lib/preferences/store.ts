@@ -0,0 +1,34 @@
+/**
+ * Preferences Store
+ *
+ * Keeps every user's preferences in one JSON file under the data
+ * directory, keyed by user id. Preferences are small and rarely saved, so
+ * one file is plenty.
+ */
+
+import { getDataDir, readJsonFile, writeJsonFile, withFileLock } from '@/lib/storage'
+import { DEFAULT_PREFERENCES, UserPreferences, VoicePreferences } from './index'
+
+const preferencesPath = () => getDataDir('preferences.json')
+
+/**
+ * Get a user's preferences, or the defaults if they have saved none
+ */
+export async function getPreferences(userId: string): Promise<UserPreferences> {
+  const all = await readJsonFile<Record<string, UserPreferences>>(preferencesPath(), {})
+  return all[userId] || DEFAULT_PREFERENCES
+}
+
+/**
+ * Replace a user's voice preferences
+ */
+export async function saveVoicePreferences(userId: string, voice: VoicePreferences): Promise<UserPreferences> {
+  const filePath = preferencesPath()
+  return withFileLock(filePath, async () => {
+    const all = await readJsonFile<Record<string, UserPreferences>>(filePath, {})
+    const preferences = { ...(all[userId] || DEFAULT_PREFERENCES), voice }
+    all[userId] = preferences
+    await writeJsonFile(filePath, all)
+    return preferences
+  })
+}
@@ -0,0 +1,70 @@
+/**
+ * Local Data Storage
+ *
+ * File-based persistence for the local stand-ins behind the app's storage
+ * interfaces. Everything lives under one data directory: PHILO_DATA_DIR if
+ * set, .data/ in the project otherwise.
+ *
+ * On Vercel the project directory is read-only and /tmp belongs to a single
+ * short-lived instance, so synced chats, conversation owners, the usage
+ * ledger and the daily quotas would quietly vanish or split between
+ * instances. There PHILO_DATA_DIR must point at durable shared storage, and
+ * every store refuses to work until it does.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+/**
+ * Get the root directory for local data, optionally joined with a subpath
+ */
+export function getDataDir(...segments: string[]): string {
+  let root = process.env.PHILO_DATA_DIR
+  if (!root) {
+    if (process.env.VERCEL) {
+      throw new Error('PHILO_DATA_DIR must point at durable storage on Vercel, where local files do not last')
+    }
+    root = path.join(process.cwd(), '.data')
+  }
+  return path.join(root, ...segments)
+}
+
+/**
+ * Read and parse a JSON file, returning the fallback if it doesn't exist yet
+ */
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    const contents = await fs.readFile(filePath, 'utf8')
+    return JSON.parse(contents) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback
+    throw error
+  }
+}
+
+/**
+ * Write a value as JSON, replacing the file atomically so readers never
+ * see a half-written file
+ */
+export async function writeJsonFile(filePath: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`
+  await fs.writeFile(tempPath, JSON.stringify(value, null, 2))
+  await fs.rename(tempPath, filePath)
+}
+
+// Pending updates per file, so concurrent requests don't overwrite each other
+const fileLocks = new Map<string, Promise<unknown>>()
+
+/**
+ * Run read-modify-write updates to the same file one at a time
+ */
+export function withFileLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const previous = fileLocks.get(filePath) || Promise.resolve()
+  const next = previous.catch(() => {}).then(task)
+  fileLocks.set(filePath, next)
+  next.finally(() => {
+    if (fileLocks.get(filePath) === next) fileLocks.delete(filePath)
+  }).catch(() => {})
+  return next
+}
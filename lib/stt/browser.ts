@@ -0,0 +1,115 @@
+/**
+ * Browser STT Provider (client-side)
+ *
+ * Recognizes speech with the Web Speech API (SpeechRecognition) while the
+ * user talks, instead of uploading a recording. Used when STT_PROVIDER is
+ * 'browser'. Chrome sends the audio to its own recognition service;
+ * Safari can recognize on the device. Firefox has no SpeechRecognition.
+ *
+ * Recognition gives text and a confidence per phrase, but no timings, so
+ * its transcripts can't be played back phrase by phrase.
+ */
+
+import type { Transcript, TranscriptSegment } from '@/lib/audio/transcript'
+import { LanguageCode, isLanguageCode } from '@/lib/language'
+
+// Errors that only mean recognition ended without hearing anything
+const QUIET_ERRORS = ['no-speech', 'aborted']
+
+/**
+ * Whether this browser can recognize speech
+ */
+export function isBrowserRecognitionSupported(): boolean {
+  return typeof window !== 'undefined' && !!(window.SpeechRecognition || window.webkitSpeechRecognition)
+}
+
+export class BrowserRecognizer {
+  // Called with everything heard so far, final and interim, as it changes
+  onInterim: ((text: string) => void) | null = null
+
+  private recognition: SpeechRecognition
+  private language: LanguageCode | null
+  // Final phrases by result index
+  private phrases: Array<{ text: string; confidence: number }> = []
+  private error: string | null = null
+  private startedAt = 0
+  private ended: Promise<void>
+
+  /**
+   * @param language - The language spoken, or null for the browser's own
+   */
+  constructor(language: LanguageCode | null) {
+    const Recognition = window.SpeechRecognition || window.webkitSpeechRecognition
+    this.recognition = new Recognition()
+    this.recognition.continuous = true
+    this.recognition.interimResults = true
+    this.recognition.lang = language || navigator.language
+
+    const browserLanguage = navigator.language.slice(0, 2)
+    this.language = language || (isLanguageCode(browserLanguage) ? browserLanguage : null)
+
+    this.recognition.onresult = (event) => {
+      let interim = ''
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i]
+        if (result.isFinal) {
+          this.phrases[i] = { text: result[0].transcript, confidence: result[0].confidence }
+        } else {
+          interim += result[0].transcript
+        }
+      }
+      this.onInterim?.(this.phrases.map(phrase => phrase.text).join('') + interim)
+    }
+
+    this.recognition.onerror = (event) => {
+      if (!QUIET_ERRORS.includes(event.error)) this.error = event.error
+    }
+
+    this.ended = new Promise(resolve => {
+      this.recognition.onend = () => resolve()
+    })
+  }
+
+  start() {
+    this.startedAt = Date.now()
+    this.recognition.start()
+  }
+
+  /**
+   * Stop listening and return what was heard, once the last phrase is final
+   */
+  async stop(): Promise<Transcript> {
+    this.recognition.stop()
+    await this.ended
+
+    if (this.error) {
+      throw new Error(`Speech recognition failed: ${this.error}`)
+    }
+
+    const segments: TranscriptSegment[] = this.phrases
+      .filter(phrase => phrase && phrase.text.trim())
+      .map(phrase => ({
+        text: phrase.text.trim(),
+        start: 0,
+        end: 0,
+        // Some browsers report 0 when they don't score phrases
+        confidence: phrase.confidence || 1,
+        words: [],
+      }))
+
+    return {
+      text: segments.map(segment => segment.text).join(' '),
+      language: this.language,
+      duration: (Date.now() - this.startedAt) / 1000,
+      segments,
+    }
+  }
+
+  /**
+   * Stop listening and drop what was heard
+   */
+  abort() {
+    this.recognition.onresult = null
+    this.recognition.abort()
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Transcription Errors
+ *
+ * /api/transcribe refuses recordings it can't use with a status and a body
+ * naming what was wrong, so the page can explain it. Shared by the server
+ * and the page.
+ */
+
+import { MAX_AUDIO_BYTES, MAX_AUDIO_SECONDS } from './formats'
+
+export type TranscribeErrorCode =
+  // No recording was sent, or it was empty
+  | 'missing_audio'
+  // Not an audio format Whisper reads
+  | 'unsupported_format'
+  // Over MAX_AUDIO_BYTES
+  | 'audio_too_large'
+  // No duration was sent, or it isn't a number of seconds
+  | 'missing_duration'
+  // Over MAX_AUDIO_SECONDS, by the page's measure or the provider's
+  | 'audio_too_long'
+  // Not one of the languages in lib/language
+  | 'unsupported_language'
+  // STT_PROVIDER=browser: speech is recognized in the page, not uploaded
+  | 'browser_recognition'
+  // The provider failed
+  | 'transcription_failed'
+
+export interface TranscribeErrorBody {
+  error: string
+  code: TranscribeErrorCode
+}
+
+/**
+ * Check whether a response body describes a refused transcription
+ */
+export function isTranscribeErrorBody(value: unknown): value is TranscribeErrorBody {
+  const body = value as TranscribeErrorBody
+  return !!body && typeof body.code === 'string' && typeof body.error === 'string'
+}
+
+/**
+ * A friendly explanation of a refused transcription, for showing to the user
+ */
+export function describeTranscribeError(body: TranscribeErrorBody): string {
+  switch (body.code) {
+    case 'missing_audio':
+      return 'No audio came through. Please check your microphone and try again.'
+    case 'unsupported_format':
+      return 'That audio format isn\'t supported. Try an M4A, MP3, WAV, WebM or Ogg file.'
+    case 'audio_too_large':
+      return `That recording is too large. Recordings can be up to ${MAX_AUDIO_BYTES / 1024 / 1024} MB.`
+    case 'audio_too_long':
+      return `That recording is too long. Recordings can be up to ${MAX_AUDIO_SECONDS / 60} minutes.`
+    case 'transcription_failed':
+      return 'Philo couldn\'t transcribe that recording. Please try again.'
+    default:
+      return body.error
+  }
+}
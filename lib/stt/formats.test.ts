@@ -0,0 +1,22 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { audioFilename, resolveAudioFormat } from './formats'
+
+test('formats are known by their MIME type, parameters and aliases included', () => {
+  assert.equal(resolveAudioFormat('audio/webm;codecs=opus')?.mimeType, 'audio/webm')
+  assert.equal(resolveAudioFormat('Audio/X-M4A')?.mimeType, 'audio/mp4')
+  assert.equal(resolveAudioFormat('video/mp4', 'memo.wav')?.mimeType, 'audio/mp4')
+  assert.equal(resolveAudioFormat('audio/aac', 'memo.m4a'), null)
+})
+
+test('without a MIME type, or a generic one, the extension decides', () => {
+  assert.equal(resolveAudioFormat('', 'Voice Memo.M4A')?.mimeType, 'audio/mp4')
+  assert.equal(resolveAudioFormat('application/octet-stream', 'talk.opus')?.mimeType, 'audio/ogg')
+  assert.equal(resolveAudioFormat('', 'notes.txt'), null)
+  assert.equal(resolveAudioFormat('', 'webm'), null)
+  assert.equal(resolveAudioFormat(''), null)
+})
+
+test('uploads are named with the first extension of their format', () => {
+  assert.equal(audioFilename(resolveAudioFormat('audio/mpeg')!), 'recording.mp3')
+})
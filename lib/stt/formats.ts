@@ -0,0 +1,71 @@
+/**
+ * Audio Formats
+ *
+ * The recordings /api/transcribe accepts: what Whisper reads, known by
+ * their MIME types and file extensions. Browsers record in different
+ * formats (Chrome and Firefox make WebM or Ogg, Safari makes MP4), and
+ * uploaded voice memos are often M4A, MP3 or WAV, sometimes with no MIME
+ * type at all. Shared by the page and the server, so it must not import
+ * anything server-only.
+ */
+
+export interface AudioFormat {
+  mimeType: string
+  // The first is used when naming uploads; Whisper goes by the extension
+  extensions: string[]
+  // Other MIME types browsers and apps use for the same format
+  aliases: string[]
+}
+
+export const AUDIO_FORMATS: AudioFormat[] = [
+  { mimeType: 'audio/webm', extensions: ['webm'], aliases: ['video/webm'] },
+  { mimeType: 'audio/ogg', extensions: ['ogg', 'oga', 'opus'], aliases: ['application/ogg'] },
+  { mimeType: 'audio/mp4', extensions: ['m4a', 'mp4'], aliases: ['audio/x-m4a', 'audio/m4a', 'video/mp4'] },
+  { mimeType: 'audio/mpeg', extensions: ['mp3', 'mpga', 'mpeg'], aliases: ['audio/mp3'] },
+  { mimeType: 'audio/wav', extensions: ['wav'], aliases: ['audio/x-wav', 'audio/wave', 'audio/vnd.wave'] },
+  { mimeType: 'audio/flac', extensions: ['flac'], aliases: ['audio/x-flac'] },
+]
+
+// Whisper's upload limit
+export const MAX_AUDIO_BYTES = 25 * 1024 * 1024
+
+// Longest recording transcribed in one go
+export const MAX_AUDIO_SECONDS = 10 * 60
+
+// For file inputs: every accepted type and extension
+export const ACCEPTED_AUDIO = AUDIO_FORMATS
+  .flatMap(format => [format.mimeType, ...format.extensions.map(extension => `.${extension}`)])
+  .join(',')
+
+// MediaRecorder formats to ask for, best first
+const RECORDER_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus']
+
+/**
+ * The format of a recording, from its MIME type or, when that is missing
+ * or generic, its filename; null if it isn't one we accept
+ */
+export function resolveAudioFormat(type: string, filename = ''): AudioFormat | null {
+  const mimeType = type.split(';')[0].trim().toLowerCase()
+  if (mimeType && mimeType !== 'application/octet-stream') {
+    return AUDIO_FORMATS.find(format => format.mimeType === mimeType || format.aliases.includes(mimeType)) || null
+  }
+  const dot = filename.lastIndexOf('.')
+  const extension = dot === -1 ? '' : filename.slice(dot + 1).toLowerCase()
+  return AUDIO_FORMATS.find(format => format.extensions.includes(extension)) || null
+}
+
+/**
+ * The filename to upload a recording in this format under
+ */
+export function audioFilename(format: AudioFormat): string {
+  return `recording.${format.extensions[0]}`
+}
+
+/**
+ * The best recording format this browser's MediaRecorder supports, or
+ * undefined if it supports none we ask for (it then picks its own)
+ */
+export function pickRecorderMimeType(): string | undefined {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported) return undefined
+  return RECORDER_MIME_TYPES.find(mimeType => MediaRecorder.isTypeSupported(mimeType))
+}
@@ -0,0 +1,105 @@
+/**
+ * Modular Speech-to-Text Service
+ *
+ * This module provides a unified interface for different STT providers.
+ * Currently supports:
+ * - OpenAI Whisper
+ * - A self-hosted Whisper server (whisper.cpp or faster-whisper) over HTTP
+ * - The browser's Web Speech API, which recognizes speech in the page
+ *   itself (see browser.ts), so nothing is uploaded
+ *
+ * The provider is picked with STT_PROVIDER ('openai' by default).
+ *
+ * To add a new server-side provider:
+ * 1. Create a new file in lib/stt/ (e.g., newprovider.ts)
+ * 2. Export a function matching the STTTranscriber type
+ * 3. Add the provider to the STTProvider type and providers object below
+ */
+
+import type { Transcript } from '@/lib/audio/transcript'
+import type { LanguageCode } from '@/lib/language'
+
+export type STTProvider = 'openai' | 'whisper-server' | 'browser'
+
+export interface STTOptions {
+  // The language spoken; providers detect it when missing
+  language?: LanguageCode
+}
+
+export type STTTranscriber = (audio: File, options?: STTOptions) => Promise<Transcript>
+
+import { transcribeWithOpenAI } from './openai'
+import { transcribeWithWhisperServer } from './whisper-server'
+
+// Browser recognition has no server side: the page never uploads audio
+const providers: Record<STTProvider, STTTranscriber | null> = {
+  openai: transcribeWithOpenAI,
+  'whisper-server': transcribeWithWhisperServer,
+  browser: null,
+}
+
+/**
+ * Whether a provider transcribes uploaded audio on the server
+ */
+export function transcribesOnServer(provider: STTProvider): boolean {
+  return providers[provider] !== null
+}
+
+/**
+ * Transcribe a recording using the specified provider
+ * @param audio - The recording
+ * @param provider - The STT provider to use (defaults to STT_PROVIDER)
+ * @param options - The language spoken, if known
+ * @returns The timed transcript
+ */
+export async function transcribeSpeech(
+  audio: File,
+  provider: STTProvider = getDefaultProvider(),
+  options: STTOptions = {}
+): Promise<Transcript> {
+  const transcriber = providers[provider]
+
+  if (transcriber === undefined) {
+    throw new Error(`Unknown STT provider: ${provider}`)
+  }
+  if (transcriber === null) {
+    throw new Error(`The ${provider} STT provider runs in the browser`)
+  }
+
+  return transcriber(audio, options)
+}
+
+/**
+ * Get available STT providers
+ */
+export function getAvailableProviders(): STTProvider[] {
+  return Object.keys(providers) as STTProvider[]
+}
+
+/**
+ * Check whether a value names a registered STT provider
+ */
+export function isSTTProvider(value: unknown): value is STTProvider {
+  return typeof value === 'string' && Object.hasOwn(providers, value)
+}
+
+/**
+ * Whether the page may show what it hears while the user is still talking,
+ * using the browser's recognition until the provider's transcript arrives.
+ * STT_LIVE_PREVIEW ('on' or 'off') decides; by default it is off for a
+ * self-hosted server, since Chrome sends the audio to its own service and
+ * a self-hosted server is there to keep recordings in-house.
+ */
+export function isLivePreviewEnabled(provider: STTProvider = getDefaultProvider()): boolean {
+  const configured = process.env.STT_LIVE_PREVIEW
+  if (configured === 'on' || configured === 'off') return configured === 'on'
+  return provider !== 'whisper-server'
+}
+
+/**
+ * Get the provider configured through STT_PROVIDER (defaults to 'openai')
+ */
+export function getDefaultProvider(): STTProvider {
+  const configured = process.env.STT_PROVIDER
+  return isSTTProvider(configured) ? configured : 'openai'
+}
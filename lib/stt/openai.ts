@@ -0,0 +1,43 @@
+/**
+ * OpenAI Whisper STT Provider
+ *
+ * Transcribes with whisper-1, asking for verbose JSON with word and
+ * segment timings.
+ * Documentation: https://platform.openai.com/docs/api-reference/audio/createTranscription
+ */
+
+import OpenAI from 'openai'
+import type { Transcript } from '@/lib/audio/transcript'
+import { fromVerboseJson } from './verbose'
+import type { STTOptions } from './index'
+
+// Created on first use, so offline setups can import this module without a key
+let client: OpenAI | null = null
+
+function getOpenAI(): OpenAI {
+  if (!client) {
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  }
+  return client
+}
+
+/**
+ * Transcribe speech using OpenAI's Whisper API
+ * @param audio - The recording
+ * @param options - The language spoken; Whisper detects it when missing
+ * @returns The timed transcript
+ */
+export async function transcribeWithOpenAI(
+  audio: File,
+  options: STTOptions = {}
+): Promise<Transcript> {
+  const transcription = await getOpenAI().audio.transcriptions.create({
+    file: audio,
+    model: 'whisper-1',
+    language: options.language,
+    response_format: 'verbose_json',
+    timestamp_granularities: ['word', 'segment'],
+  })
+
+  return fromVerboseJson(transcription)
+}
@@ -0,0 +1,81 @@
+/**
+ * Whisper Verbose JSON
+ *
+ * OpenAI and the self-hosted Whisper servers answer with much the same
+ * "verbose_json": the text, the language heard, the duration, and timed
+ * segments and words. OpenAI lists words separately and scores only
+ * segments (by their mean token log probability); whisper.cpp and
+ * faster-whisper nest words in their segments and score each word too.
+ * This turns either into a Transcript.
+ */
+
+import { Transcript, TranscriptWord, groupWords } from '@/lib/audio/transcript'
+import { fromWhisperLanguage } from '@/lib/language'
+
+export interface VerboseWord {
+  word: string
+  start: number
+  end: number
+  probability?: number
+}
+
+export interface VerboseSegment {
+  text: string
+  start: number
+  end: number
+  avg_logprob?: number
+  words?: VerboseWord[]
+}
+
+export interface VerboseTranscription {
+  text: string
+  // In full ("french"); some servers send the code instead
+  language?: string
+  duration?: number
+  segments?: VerboseSegment[]
+  words?: VerboseWord[]
+}
+
+function toWord(word: VerboseWord): TranscriptWord {
+  return {
+    text: word.word.trim(),
+    start: word.start,
+    end: word.end,
+    ...(word.probability !== undefined && { confidence: word.probability }),
+  }
+}
+
+// A segment's confidence from its log probability, or else its words' scores
+function segmentConfidence(segment: VerboseSegment): number {
+  if (segment.avg_logprob !== undefined) return Math.exp(segment.avg_logprob)
+  const scores = (segment.words || []).flatMap(word => (word.probability === undefined ? [] : [word.probability]))
+  return scores.length ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 1
+}
+
+/**
+ * Turn a verbose JSON transcription into a Transcript
+ */
+export function fromVerboseJson(data: VerboseTranscription): Transcript {
+  const verboseSegments = data.segments || []
+  const duration = data.duration ?? verboseSegments[verboseSegments.length - 1]?.end ?? 0
+
+  const segments = verboseSegments.length
+    ? verboseSegments.map(segment => ({
+        text: segment.text.trim(),
+        start: segment.start,
+        end: segment.end,
+        confidence: segmentConfidence(segment),
+        words: (segment.words || []).map(toWord),
+      }))
+    : data.text.trim() ? [{ text: data.text.trim(), start: 0, end: duration, confidence: 1, words: [] }] : []
+
+  return {
+    text: data.text.trim(),
+    language: fromWhisperLanguage(data.language),
+    duration,
+    // Words listed apart from the segments go to the segment they fall in
+    segments: data.words?.length
+      ? groupWords(segments, data.words.map(toWord))
+      : segments,
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Self-hosted Whisper STT Provider
+ *
+ * Sends recordings to a Whisper server on your own machines, so voice data
+ * never leaves them and transcription works offline. Any server with an
+ * OpenAI-style transcription endpoint that answers verbose JSON works:
+ * - whisper.cpp's server: http://localhost:8080/inference
+ * - faster-whisper servers (e.g. speaches): http://localhost:8000/v1/audio/transcriptions
+ *
+ * To enable:
+ * 1. Start the server
+ * 2. Set WHISPER_SERVER_URL to its transcription endpoint
+ * 3. Set STT_PROVIDER=whisper-server
+ * WHISPER_SERVER_MODEL names the model for servers that host several, and
+ * WHISPER_SERVER_API_KEY is sent as a bearer token if the server wants one.
+ */
+
+import type { Transcript } from '@/lib/audio/transcript'
+import { VerboseTranscription, fromVerboseJson } from './verbose'
+import type { STTOptions } from './index'
+
+/**
+ * Transcribe speech using a self-hosted Whisper server
+ * @param audio - The recording
+ * @param options - The language spoken; the server detects it when missing
+ * @returns The timed transcript
+ */
+export async function transcribeWithWhisperServer(
+  audio: File,
+  options: STTOptions = {}
+): Promise<Transcript> {
+  const url = process.env.WHISPER_SERVER_URL
+
+  if (!url) {
+    throw new Error(
+      'Whisper server not configured. ' +
+      'Please set WHISPER_SERVER_URL to its transcription endpoint, ' +
+      'or switch to OpenAI Whisper by setting STT_PROVIDER=openai'
+    )
+  }
+
+  const form = new FormData()
+  form.append('file', audio, audio.name || 'recording.webm')
+  form.append('response_format', 'verbose_json')
+  form.append('timestamp_granularities[]', 'word')
+  form.append('timestamp_granularities[]', 'segment')
+  // What servers that pass options straight to faster-whisper call word timings
+  form.append('word_timestamps', 'true')
+  if (options.language) form.append('language', options.language)
+  if (process.env.WHISPER_SERVER_MODEL) form.append('model', process.env.WHISPER_SERVER_MODEL)
+
+  const apiKey = process.env.WHISPER_SERVER_API_KEY
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : undefined,
+    body: form,
+  })
+
+  if (!response.ok) {
+    const error = await response.text()
+    throw new Error(`Whisper server error: ${error}`)
+  }
+
+  const data = await response.json() as VerboseTranscription
+  if (typeof data?.text !== 'string') {
+    throw new Error('Whisper server did not answer with verbose JSON')
+  }
+
+  return fromVerboseJson(data)
+}
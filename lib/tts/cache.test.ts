@@ -0,0 +1,39 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { speechCacheKey } from './cache'
+import { resolveElevenLabsOptions } from './elevenlabs'
+import { resolveOpenAIOptions } from './openai'
+
+const openai = (text: string, options = {}) => speechCacheKey(text, 'openai', resolveOpenAIOptions(options))
+
+test('the same words with different spacing or composition share a key', () => {
+  assert.equal(openai('Justice is  harmony.\n'), openai(' Justice is harmony.'))
+  assert.equal(openai('\u00c9pict\u00e8te'), openai('E\u0301picte\u0300te'))
+  assert.notEqual(openai('Justice is harmony.'), openai('Justice is Harmony.'))
+})
+
+test('defaults are filled in before hashing', () => {
+  assert.equal(openai('Hello'), openai('Hello', { voice: 'nova', model: 'tts-1', speed: 1 }))
+  assert.equal(openai('Hello', { voice: 'not-a-voice', speed: 9 }), openai('Hello', { speed: 4 }))
+  const elevenlabs = (options: object) => speechCacheKey('Hello', 'elevenlabs', resolveElevenLabsOptions(options))
+  assert.equal(elevenlabs({ voice: 'adam' }), elevenlabs({ voice: 'pNInz6obpgDQGcFmaJgB', stability: 0.5 }))
+})
+
+test('anything that changes the audio changes the key', () => {
+  const keys = [
+    openai('Hello'),
+    openai('Hello', { voice: 'onyx' }),
+    openai('Hello', { model: 'tts-1-hd' }),
+    openai('Hello', { speed: 1.5 }),
+    speechCacheKey('Hello', 'elevenlabs', resolveOpenAIOptions({})),
+  ]
+  assert.equal(new Set(keys).size, keys.length)
+})
+
+test('a per-language default voice changes the key', t => {
+  const before = openai('Bonjour', { language: 'fr' })
+  process.env.OPENAI_TTS_VOICE_FR = 'onyx'
+  t.after(() => { delete process.env.OPENAI_TTS_VOICE_FR })
+  assert.notEqual(openai('Bonjour', { language: 'fr' }), before)
+  assert.equal(openai('Bonjour', { language: 'fr' }), openai('Bonjour', { voice: 'onyx' }))
+})
@@ -0,0 +1,284 @@
+/**
+ * Speech Cache
+ *
+ * Synthesized audio is kept under a hash of what was said and how: the
+ * normalised text, the provider, and the voice, model, speed and stability
+ * the provider resolves them to (defaults and per-language voices filled
+ * in), so clips made with an old default aren't served after it changes.
+ * Replaying an answer, or a
+ * greeting every user hears, then streams from disk instead of paying the
+ * provider again.
+ *
+ * Entries are files under the data directory (tts-cache/), one per clip.
+ * Once the cache grows past TTS_CACHE_MAX_MB (200 by default) the least
+ * recently played are evicted; a file's modification time records when it
+ * was last played, so the order survives restarts. TTS_CACHE=off turns the
+ * cache off. Only audio that streamed in full is kept. Hits and misses are
+ * counted in memory, per server instance.
+ */
+
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { getDataDir } from '@/lib/storage'
+import type { TTSAudio, TTSOptions, TTSProvider } from './index'
+
+// Bump to drop every entry when the way audio is produced changes
+const KEY_VERSION = 1
+
+const DEFAULT_MAX_MB = 200
+
+// Content types worth caching, and the extension their files get
+const EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/opus': 'opus',
+  'audio/aac': 'aac',
+  'audio/flac': 'flac',
+}
+
+interface CacheEntry {
+  file: string
+  size: number
+  contentType: string
+}
+
+export interface TTSCacheStats {
+  enabled: boolean
+  hits: number
+  misses: number
+  // Hits as a share of lookups, 0 before the first
+  hitRate: number
+  // Audio streamed from the cache instead of the provider
+  bytesServed: number
+  evictions: number
+  entries: number
+  bytes: number
+  maxBytes: number
+}
+
+interface CacheState {
+  counters: { hits: number; misses: number; bytesServed: number; evictions: number }
+  // Entries by key, least recently played first; loaded from disk once
+  index: Promise<Map<string, CacheEntry>> | null
+  totalBytes: number
+}
+
+// Route handlers may be bundled separately, each with its own copy of this
+// module, so the state is kept on globalThis where /api/tts/cache can see
+// what /api/tts did
+const globalForCache = globalThis as typeof globalThis & { philoSpeechCache?: CacheState }
+const state: CacheState = globalForCache.philoSpeechCache ??= {
+  counters: { hits: 0, misses: 0, bytesServed: 0, evictions: 0 },
+  index: null,
+  totalBytes: 0,
+}
+const { counters } = state
+
+const cacheDir = () => getDataDir('tts-cache')
+
+function getMaxBytes(): number {
+  const value = Number(process.env.TTS_CACHE_MAX_MB)
+  return (Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_MB) * 1024 * 1024
+}
+
+/**
+ * Whether synthesized speech is cached (TTS_CACHE=off turns it off)
+ */
+export function isSpeechCacheEnabled(): boolean {
+  return process.env.TTS_CACHE !== 'off'
+}
+
+/**
+ * Text as it is hashed: the same words with different spacing or Unicode
+ * composition are spoken the same
+ */
+export function normalizeSpeechText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * The cache key for speaking some text with a provider and the options it
+ * resolved them to
+ */
+export function speechCacheKey(text: string, provider: TTSProvider, options: TTSOptions): string {
+  const parts = [
+    KEY_VERSION,
+    normalizeSpeechText(text),
+    provider,
+    options.voice ?? null,
+    options.model ?? null,
+    options.speed ?? null,
+    options.stability ?? null,
+  ]
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex')
+}
+
+// Scan the cache directory, oldest-played first
+async function loadIndex(): Promise<Map<string, CacheEntry>> {
+  const contentTypes = Object.fromEntries(Object.entries(EXTENSIONS).map(([type, extension]) => [extension, type]))
+  let names: string[]
+  try {
+    names = await fs.readdir(cacheDir())
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return new Map()
+    throw error
+  }
+
+  const found = await Promise.all(names.map(async name => {
+    // Skips clips still being written (key.mp3.pid.time.tmp)
+    const [key, extension, ...rest] = name.split('.')
+    if (rest.length > 0 || !/^[0-9a-f]{64}$/.test(key) || !contentTypes[extension]) return null
+    const stats = await fs.stat(path.join(cacheDir(), name)).catch(() => null)
+    if (!stats) return null
+    return { key, playedAt: stats.mtimeMs, entry: { file: name, size: stats.size, contentType: contentTypes[extension] } }
+  }))
+
+  const entries = new Map<string, CacheEntry>()
+  state.totalBytes = 0
+  const sorted = found
+    .filter((item): item is NonNullable<typeof item> => item !== null)
+    .sort((a, b) => a.playedAt - b.playedAt)
+  for (const { key, entry } of sorted) {
+    entries.set(key, entry)
+    state.totalBytes += entry.size
+  }
+  return entries
+}
+
+function getIndex(): Promise<Map<string, CacheEntry>> {
+  if (!state.index) {
+    state.index = loadIndex().catch(error => {
+      state.index = null
+      throw error
+    })
+  }
+  return state.index
+}
+
+// Drop the least recently played entries until the cache fits
+async function evict(entries: Map<string, CacheEntry>): Promise<void> {
+  const maxBytes = getMaxBytes()
+  while (state.totalBytes > maxBytes && entries.size > 0) {
+    const [key, entry] = entries.entries().next().value as [string, CacheEntry]
+    entries.delete(key)
+    state.totalBytes -= entry.size
+    counters.evictions++
+    await fs.unlink(path.join(cacheDir(), entry.file)).catch(() => {})
+  }
+}
+
+function streamBytes(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(bytes)
+      controller.close()
+    },
+  })
+}
+
+/**
+ * Look up cached speech, counting the hit or miss
+ * @returns The audio, or null if it isn't cached
+ */
+export async function readCachedSpeech(key: string): Promise<TTSAudio | null> {
+  const entries = await getIndex()
+  const entry = entries.get(key)
+  if (entry) {
+    const filePath = path.join(cacheDir(), entry.file)
+    try {
+      const bytes = new Uint8Array(await fs.readFile(filePath))
+      // Played just now: move it to the back of the eviction queue
+      entries.delete(key)
+      entries.set(key, entry)
+      const now = new Date()
+      await fs.utimes(filePath, now, now).catch(() => {})
+
+      counters.hits++
+      counters.bytesServed += bytes.length
+      return { stream: streamBytes(bytes), contentType: entry.contentType, cached: true }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      // Removed from disk behind our back
+      if (entries.get(key) === entry) {
+        entries.delete(key)
+        state.totalBytes -= entry.size
+      }
+    }
+  }
+
+  counters.misses++
+  return null
+}
+
+async function storeSpeech(key: string, contentType: string, chunks: Uint8Array[]): Promise<void> {
+  const size = chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+  if (size === 0 || size > getMaxBytes()) return
+
+  const entries = await getIndex()
+  const file = `${key}.${EXTENSIONS[contentType]}`
+  const filePath = path.join(cacheDir(), file)
+  await fs.mkdir(cacheDir(), { recursive: true })
+  // Written aside and renamed, so a half-written clip is never played
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`
+  await fs.writeFile(tempPath, Buffer.concat(chunks))
+  await fs.rename(tempPath, filePath)
+
+  const previous = entries.get(key)
+  if (previous) {
+    entries.delete(key)
+    state.totalBytes -= previous.size
+  }
+  entries.set(key, { file, size, contentType })
+  state.totalBytes += size
+  await evict(entries)
+}
+
+/**
+ * Pass audio through while keeping a copy, which is cached once the
+ * provider has sent all of it. Audio cut short (by an error, or the client
+ * going away) is not cached.
+ */
+export function cacheSpeech(key: string, audio: TTSAudio): TTSAudio {
+  if (!EXTENSIONS[audio.contentType]) return audio
+
+  const reader = audio.stream.getReader()
+  const chunks: Uint8Array[] = []
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read()
+      if (done) {
+        controller.close()
+        storeSpeech(key, audio.contentType, chunks)
+          .catch(error => console.error('Failed to cache speech:', error))
+        return
+      }
+      chunks.push(value)
+      controller.enqueue(value)
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    },
+  })
+
+  return { ...audio, stream }
+}
+
+/**
+ * Hit and miss counts since the server started, and the cache's size
+ */
+export async function getSpeechCacheStats(): Promise<TTSCacheStats> {
+  const enabled = isSpeechCacheEnabled()
+  const entries = enabled ? await getIndex() : new Map<string, CacheEntry>()
+  const lookups = counters.hits + counters.misses
+  return {
+    enabled,
+    ...counters,
+    hitRate: lookups > 0 ? counters.hits / lookups : 0,
+    entries: entries.size,
+    bytes: enabled ? state.totalBytes : 0,
+    maxBytes: getMaxBytes(),
+  }
+}
@@ -1,30 +1,87 @@
 /**
- * ElevenLabs TTS Provider (Placeholder)
+ * ElevenLabs TTS Provider
  * 
- * This module is ready for ElevenLabs integration.
  * To enable:
  * 1. Get an API key from https://elevenlabs.io
  * 2. Add ELEVENLABS_API_KEY to your environment variables
- * 3. Implement the synthesizeWithElevenLabs function below
+ * 3. Set TTS_PROVIDER=elevenlabs
  * 
  * Documentation: https://docs.elevenlabs.io/api-reference/text-to-speech
  */
 
+import type { TTSAudio, TTSOptions, TTSVoice, TTSVoiceCatalog } from './index'
+
+const API_URL = 'https://api.elevenlabs.io/v1'
+
 // ElevenLabs voice IDs (some popular ones)
-// You can find more at: https://api.elevenlabs.io/v1/voices
-const VOICE_IDS = {
-  adam: '21m00Tcm4TlvDq8ikWAM',      // Deep, professional male
+// The account's full list comes from listElevenLabsVoices
+const VOICE_IDS: Record<string, string> = {
+  adam: 'pNInz6obpgDQGcFmaJgB',      // Deep, professional male
   rachel: '21m00Tcm4TlvDq8ikWAM',    // Calm female
   josh: 'TxGEqnHWrfWFTfGW9XjX',       // Conversational male
   bella: 'EXAVITQu4vr4xnSDxMaL',      // Soft female
 }
 
+// English-only, and a little faster; anything else (or text in a language
+// we don't know) goes to the multilingual model
+const ENGLISH_MODEL = 'eleven_monolingual_v1'
+const MULTILINGUAL_MODEL = 'eleven_multilingual_v2'
+
+const MODELS = [
+  { id: MULTILINGUAL_MODEL, name: 'Multilingual v2' },
+  { id: 'eleven_turbo_v2_5', name: 'Turbo v2.5 (faster)' },
+  { id: ENGLISH_MODEL, name: 'English v1' },
+]
+
+const DEFAULT_STABILITY = 0.5
+
+// The speeds the API accepts
+const MIN_SPEED = 0.7
+const MAX_SPEED = 1.2
+
+// A model picked in the settings, unless it can't speak the text's language
+function resolveModel({ model, language }: TTSOptions): string {
+  const picked = MODELS.find(m => m.id === model)?.id
+  if (picked && (picked !== ENGLISH_MODEL || language === 'en')) return picked
+  return language === 'en' ? ENGLISH_MODEL : MULTILINGUAL_MODEL
+}
+
+/**
+ * The voice id, model, speed and stability ElevenLabs will actually be
+ * asked for, with the defaults and per-language choices filled in
+ */
+export function resolveElevenLabsOptions(options: TTSOptions): {
+  voice: string
+  model: string
+  speed: number
+  stability: number
+} {
+  const voice = (options.voice && (VOICE_IDS[options.voice] || options.voice))
+    || (options.language && process.env[`ELEVENLABS_VOICE_ID_${options.language.toUpperCase()}`])
+    || process.env.ELEVENLABS_VOICE_ID
+    || VOICE_IDS.adam
+
+  return {
+    voice,
+    model: resolveModel(options),
+    speed: Math.min(Math.max(options.speed ?? 1, MIN_SPEED), MAX_SPEED),
+    stability: options.stability ?? DEFAULT_STABILITY,
+  }
+}
+
 /**
  * Synthesize speech using ElevenLabs API
  * @param text - The text to convert to speech
- * @returns Base64 data URL for the audio
+ * @param options - Optional voice override (a name from VOICE_IDS or a raw voice
+ *   id), model, speed and stability, and the text's language, which picks
+ *   the model when none is set and, through ELEVENLABS_VOICE_ID_FR and the
+ *   like, a voice for that language
+ * @returns Streaming mp3 audio
  */
-export async function synthesizeWithElevenLabs(text: string): Promise<string> {
+export async function synthesizeWithElevenLabs(
+  text: string,
+  options: TTSOptions = {}
+): Promise<TTSAudio> {
   const apiKey = process.env.ELEVENLABS_API_KEY
 
   if (!apiKey) {
@@ -35,10 +92,11 @@ export async function synthesizeWithElevenLabs(text: string): Promise<string> {
     )
   }
 
-  const voiceId = process.env.ELEVENLABS_VOICE_ID || VOICE_IDS.adam
+  const { voice: voiceId, model, speed, stability } = resolveElevenLabsOptions(options)
 
+  // The /stream endpoint sends audio back as soon as the first chunk is ready
   const response = await fetch(
-    `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`,
+    `${API_URL}/text-to-speech/${encodeURIComponent(voiceId)}/stream`,
     {
       method: 'POST',
       headers: {
@@ -48,10 +106,11 @@ export async function synthesizeWithElevenLabs(text: string): Promise<string> {
       },
       body: JSON.stringify({
         text: text,
-        model_id: 'eleven_monolingual_v1',
+        model_id: model,
         voice_settings: {
-          stability: 0.5,
+          stability,
           similarity_boost: 0.75,
+          speed,
         },
       }),
     }
@@ -62,9 +121,51 @@ export async function synthesizeWithElevenLabs(text: string): Promise<string> {
     throw new Error(`ElevenLabs API error: ${error}`)
   }
 
-  const arrayBuffer = await response.arrayBuffer()
-  const base64 = Buffer.from(arrayBuffer).toString('base64')
-  
-  return `data:audio/mpeg;base64,${base64}`
+  if (!response.body) {
+    throw new Error('ElevenLabs API returned an empty response')
+  }
+
+  return {
+    stream: response.body,
+    contentType: 'audio/mpeg',
+  }
 }
 
+
+/**
+ * List the voices on the ElevenLabs account (premade ones and any the
+ * account has added), and the models
+ */
+export async function listElevenLabsVoices(): Promise<TTSVoiceCatalog> {
+  const apiKey = process.env.ELEVENLABS_API_KEY
+
+  if (!apiKey) {
+    throw new Error('ElevenLabs API key not configured. Please set ELEVENLABS_API_KEY')
+  }
+
+  const response = await fetch(`${API_URL}/voices`, {
+    headers: { 'xi-api-key': apiKey },
+  })
+
+  if (!response.ok) {
+    const error = await response.text()
+    throw new Error(`ElevenLabs API error: ${error}`)
+  }
+
+  const data = await response.json() as {
+    voices?: Array<{ voice_id: string; name: string; labels?: Record<string, string> }>
+  }
+  const voices: TTSVoice[] = (data.voices || []).map(voice => ({
+    id: voice.voice_id,
+    name: voice.name,
+    description: Object.values(voice.labels || {}).join(', ') || undefined,
+  }))
+
+  return {
+    voices,
+    models: MODELS,
+    controls: ['speed', 'stability'],
+    defaultVoice: process.env.ELEVENLABS_VOICE_ID || VOICE_IDS.adam,
+    defaultModel: MULTILINGUAL_MODEL,
+  }
+}
@@ -1,46 +1,191 @@
 /**
  * Modular Text-to-Speech Service
- * 
+ *
  * This module provides a unified interface for different TTS providers.
  * Currently supports:
  * - OpenAI TTS
- * - ElevenLabs (ready for implementation)
- * 
+ * - ElevenLabs
+ *
+ * Each provider also lists its voices and models for the voice settings
+ * panel, where users pick their own (see lib/preferences).
+ *
+ * Synthesized speech is cached on disk (see cache.ts), so the same text in
+ * the same voice is only paid for once.
+ *
  * To add a new provider:
  * 1. Create a new file in lib/tts/ (e.g., newprovider.ts)
- * 2. Export a function matching the TTSSynthesizer type
+ * 2. Export a function matching the TTSSynthesizer type, and one matching
+ *    TTSVoiceLister
  * 3. Add the provider to the TTSProvider type and providers object below
  */
 
+import type { LanguageCode } from '@/lib/language'
+
 export type TTSProvider = 'openai' | 'elevenlabs'
 
-export type TTSSynthesizer = (text: string) => Promise<string>
+export interface TTSOptions {
+  // Provider-specific voice name or id; each provider falls back to its
+  // voice for the language, then its default
+  voice?: string
+  // Provider-specific model id, from the provider's catalog
+  model?: string
+  // 1 is normal speed; providers clamp it to what they support
+  speed?: number
+  // 0 (more expressive) to 1 (steadier), for providers that support it
+  stability?: number
+  // The language of the text, when known
+  language?: LanguageCode
+}
+
+export interface TTSAudio {
+  // Raw audio bytes, streamed as the provider produces them
+  stream: ReadableStream<Uint8Array>
+  contentType: string
+  // Served from the speech cache, at no cost
+  cached?: boolean
+}
+
+export type TTSSynthesizer = (text: string, options?: TTSOptions) => Promise<TTSAudio>
+
+export interface TTSVoice {
+  // What to pass as TTSOptions.voice
+  id: string
+  name: string
+  description?: string
+}
+
+export interface TTSModel {
+  id: string
+  name: string
+}
 
-import { synthesizeWithOpenAI } from './openai'
-import { synthesizeWithElevenLabs } from './elevenlabs'
+// The settings TTSOptions can carry beyond voice and model
+export type TTSControl = 'speed' | 'stability'
 
-const providers: Record<TTSProvider, TTSSynthesizer> = {
-  openai: synthesizeWithOpenAI,
-  elevenlabs: synthesizeWithElevenLabs,
+// What a provider offers the voice settings panel
+export interface TTSVoiceCatalog {
+  voices: TTSVoice[]
+  models: TTSModel[]
+  controls: TTSControl[]
+  // Used when the user hasn't picked one
+  defaultVoice: string
+  defaultModel: string
+}
+
+export type TTSVoiceLister = () => Promise<TTSVoiceCatalog>
+
+// The settings a provider will really use for some options: the voice and
+// model it falls back to, and speeds clamped to what it supports
+export type TTSOptionsResolver = (options: TTSOptions) => TTSOptions
+
+import { listOpenAIVoices, resolveOpenAIOptions, synthesizeWithOpenAI } from './openai'
+import { listElevenLabsVoices, resolveElevenLabsOptions, synthesizeWithElevenLabs } from './elevenlabs'
+import { splitIntoChunks } from './sentences'
+import { cacheSpeech, isSpeechCacheEnabled, readCachedSpeech, speechCacheKey } from './cache'
+
+const providers: Record<TTSProvider, {
+  synthesize: TTSSynthesizer
+  listVoices: TTSVoiceLister
+  resolveOptions: TTSOptionsResolver
+}> = {
+  openai: { synthesize: synthesizeWithOpenAI, listVoices: listOpenAIVoices, resolveOptions: resolveOpenAIOptions },
+  elevenlabs: {
+    synthesize: synthesizeWithElevenLabs,
+    listVoices: listElevenLabsVoices,
+    resolveOptions: resolveElevenLabsOptions,
+  },
+}
+
+// Longest input accepted by every provider (OpenAI's limit is the lowest)
+const MAX_INPUT_LENGTH = 4096
+
+/**
+ * Join the audio for consecutive chunks into one stream, synthesizing
+ * each chunk only once the previous one has been fully read
+ */
+function concatenateAudio(
+  first: TTSAudio,
+  rest: Array<() => Promise<TTSAudio>>
+): TTSAudio {
+  let reader = first.stream.getReader()
+  const pending = [...rest]
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (!done) {
+          controller.enqueue(value)
+          return
+        }
+        const next = pending.shift()
+        if (!next) {
+          controller.close()
+          return
+        }
+        reader = (await next()).stream.getReader()
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    },
+  })
+
+  return { stream, contentType: first.contentType }
 }
 
 /**
  * Synthesize speech using the specified provider
  * @param text - The text to convert to speech
  * @param provider - The TTS provider to use (defaults to 'openai')
- * @returns Base64 data URL for the audio
+ * @param options - Voice and other provider options
+ * @returns Streaming audio and its content type
  */
 export async function synthesizeSpeech(
   text: string,
-  provider: TTSProvider = 'openai'
-): Promise<string> {
-  const synthesizer = providers[provider]
-  
+  provider: TTSProvider = 'openai',
+  options: TTSOptions = {}
+): Promise<TTSAudio> {
+  const synthesizer = providers[provider]?.synthesize
+
   if (!synthesizer) {
     throw new Error(`Unknown TTS provider: ${provider}`)
   }
 
-  return synthesizer(text)
+  // Keyed by what the provider will really be asked for, so changing a
+  // default voice or model doesn't serve clips spoken with the old one
+  const cacheKey = isSpeechCacheEnabled()
+    ? speechCacheKey(text, provider, providers[provider].resolveOptions(options))
+    : null
+  if (cacheKey) {
+    const cached = await readCachedSpeech(cacheKey).catch(error => {
+      console.error('Failed to read the speech cache:', error)
+      return null
+    })
+    if (cached) return cached
+  }
+
+  // Long texts are spoken in full, one provider request per chunk
+  const [firstChunk, ...otherChunks] = splitIntoChunks(text, MAX_INPUT_LENGTH)
+  const first = await synthesizer(firstChunk, options)
+  const audio = otherChunks.length === 0
+    ? first
+    : concatenateAudio(first, otherChunks.map(chunk => () => synthesizer(chunk, options)))
+
+  return cacheKey ? cacheSpeech(cacheKey, audio) : audio
+}
+
+/**
+ * List the voices and models a provider offers
+ */
+export async function listVoices(provider: TTSProvider = getDefaultProvider()): Promise<TTSVoiceCatalog> {
+  const lister = providers[provider]?.listVoices
+
+  if (!lister) {
+    throw new Error(`Unknown TTS provider: ${provider}`)
+  }
+
+  return lister()
 }
 
 /**
@@ -50,3 +195,30 @@ export function getAvailableProviders(): TTSProvider[] {
   return Object.keys(providers) as TTSProvider[]
 }
 
+// The API key each provider needs
+const API_KEY_VARIABLES: Record<TTSProvider, string> = {
+  openai: 'OPENAI_API_KEY',
+  elevenlabs: 'ELEVENLABS_API_KEY',
+}
+
+/**
+ * Get the providers this deployment has API keys for, which users may pick
+ */
+export function getConfiguredProviders(): TTSProvider[] {
+  return getAvailableProviders().filter(provider => !!process.env[API_KEY_VARIABLES[provider]])
+}
+
+/**
+ * Check whether a value names a registered TTS provider
+ */
+export function isTTSProvider(value: unknown): value is TTSProvider {
+  return typeof value === 'string' && Object.hasOwn(providers, value)
+}
+
+/**
+ * Get the provider configured through TTS_PROVIDER (defaults to 'openai')
+ */
+export function getDefaultProvider(): TTSProvider {
+  const configured = process.env.TTS_PROVIDER
+  return isTTSProvider(configured) ? configured : 'openai'
+}
@@ -1,45 +1,119 @@
 /**
  * OpenAI TTS Provider
- * 
+ *
  * Uses OpenAI's text-to-speech API to generate audio from text.
  * Documentation: https://platform.openai.com/docs/guides/text-to-speech
  */
 
 import OpenAI from 'openai'
+import type { TTSAudio, TTSOptions, TTSVoiceCatalog } from './index'
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
+// Created on first use, so deployments speaking through ElevenLabs alone
+// can import this module without a key
+let client: OpenAI | null = null
+
+function getOpenAI(): OpenAI {
+  if (!client) {
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  }
+  return client
+}
+
+const VOICES = [
+  { id: 'alloy', name: 'Alloy', description: 'Neutral and balanced' },
+  { id: 'echo', name: 'Echo', description: 'Clear male' },
+  { id: 'fable', name: 'Fable', description: 'Expressive, British' },
+  { id: 'onyx', name: 'Onyx', description: 'Deep male' },
+  { id: 'nova', name: 'Nova', description: 'Warm, friendly female' },
+  { id: 'shimmer', name: 'Shimmer', description: 'Bright female' },
+] as const
+
+type OpenAIVoice = typeof VOICES[number]['id']
 
-// Available voices: alloy, echo, fable, onyx, nova, shimmer
 // Using 'nova' for a warm, friendly female voice
-const DEFAULT_VOICE: 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer' = 'nova'
+const DEFAULT_VOICE: OpenAIVoice = 'nova'
+
+const MODELS = [
+  { id: 'tts-1', name: 'Standard (faster)' },
+  { id: 'tts-1-hd', name: 'HD (higher quality)' },
+] as const
+
+type OpenAIModel = typeof MODELS[number]['id']
 
 // Using tts-1 for faster response, tts-1-hd for higher quality
-const DEFAULT_MODEL: 'tts-1' | 'tts-1-hd' = 'tts-1'
+const DEFAULT_MODEL: OpenAIModel = 'tts-1'
+
+// The speeds the API accepts
+const MIN_SPEED = 0.25
+const MAX_SPEED = 4
+
+function isVoice(voice: string | undefined): voice is OpenAIVoice {
+  return VOICES.some(v => v.id === voice)
+}
+
+function isModel(model: string | undefined): model is OpenAIModel {
+  return MODELS.some(m => m.id === model)
+}
+
+// Every voice speaks every language, but some sound more natural in one
+// than another; OPENAI_TTS_VOICE_FR (and so on) pick a voice per language
+function resolveVoice({ voice, language }: TTSOptions): OpenAIVoice {
+  if (isVoice(voice)) return voice
+  const languageVoice = language && process.env[`OPENAI_TTS_VOICE_${language.toUpperCase()}`]
+  return isVoice(languageVoice) ? languageVoice : DEFAULT_VOICE
+}
+
+/**
+ * The voice, model and speed OpenAI will actually be asked for, with the
+ * defaults and per-language voices filled in
+ */
+export function resolveOpenAIOptions(options: TTSOptions): { voice: OpenAIVoice; model: OpenAIModel; speed: number } {
+  return {
+    voice: resolveVoice(options),
+    model: isModel(options.model) ? options.model : DEFAULT_MODEL,
+    speed: Math.min(Math.max(options.speed ?? 1, MIN_SPEED), MAX_SPEED),
+  }
+}
 
 /**
  * Synthesize speech using OpenAI's TTS API
+ * (inputs over 4096 characters are split up by synthesizeSpeech)
  * @param text - The text to convert to speech
- * @returns Base64 data URL for the audio (mp3 format)
+ * @param options - Optional voice, model and speed, and the text's language
+ * @returns Streaming mp3 audio
  */
-export async function synthesizeWithOpenAI(text: string): Promise<string> {
-  // Truncate very long texts to avoid API limits
-  const maxLength = 4096
-  const truncatedText = text.length > maxLength 
-    ? text.substring(0, maxLength - 3) + '...'
-    : text
-
-  const mp3Response = await openai.audio.speech.create({
-    model: DEFAULT_MODEL,
-    voice: DEFAULT_VOICE,
-    input: truncatedText,
+export async function synthesizeWithOpenAI(
+  text: string,
+  options: TTSOptions = {}
+): Promise<TTSAudio> {
+  const { voice, model, speed } = resolveOpenAIOptions(options)
+  const mp3Response = await getOpenAI().audio.speech.create({
+    model,
+    voice,
+    input: text,
     response_format: 'mp3',
+    speed,
   })
 
-  // Convert the response to a base64 data URL
-  const arrayBuffer = await mp3Response.arrayBuffer()
-  const base64 = Buffer.from(arrayBuffer).toString('base64')
-  
-  return `data:audio/mp3;base64,${base64}`
+  if (!mp3Response.body) {
+    throw new Error('OpenAI TTS returned an empty response')
+  }
+
+  return {
+    stream: mp3Response.body as ReadableStream<Uint8Array>,
+    contentType: 'audio/mpeg',
+  }
+}
+
+/**
+ * List OpenAI's voices and models; every voice speaks every language
+ */
+export async function listOpenAIVoices(): Promise<TTSVoiceCatalog> {
+  return {
+    voices: VOICES.map(voice => ({ ...voice })),
+    models: MODELS.map(model => ({ ...model })),
+    controls: ['speed'],
+    defaultVoice: DEFAULT_VOICE,
+    defaultModel: DEFAULT_MODEL,
+  }
 }
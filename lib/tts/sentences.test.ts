@@ -0,0 +1,56 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { SentenceSplitter, cleanForSpeech, splitIntoChunks } from './sentences'
+
+// Sentences completed by each piece, then what flush() leaves
+function split(...pieces: string[]): Array<string[] | string | null> {
+  const splitter = new SentenceSplitter()
+  return [...pieces.map(piece => splitter.push(piece)), splitter.flush()]
+}
+
+test('a sentence ends once the character after its period arrives', () => {
+  assert.deepEqual(split('Justice is harmony.', ' Courage', ' is knowledge.'), [
+    [],
+    ['Justice is harmony.'],
+    [],
+    'Courage is knowledge.',
+  ])
+})
+
+test('titles and initials do not end a sentence', () => {
+  assert.deepEqual(split('Dr. Smith read it. Then he left. '), [['Dr. Smith read it.', 'Then he left.'], null])
+  assert.deepEqual(split('J. R. R. Tolkien wrote it. So'), [['J. R. R. Tolkien wrote it.'], 'So'])
+  assert.deepEqual(split('Ask Dr', '. Smith. Then'), [[], ['Ask Dr. Smith.'], 'Then'])
+})
+
+test('footnote markers stay with the sentence they follow', () => {
+  assert.deepEqual(split('Justice is harmony.[2] Courage'), [['Justice is harmony.[2]'], 'Courage'])
+  assert.deepEqual(split('Justice is harmony.', '[', '2]', ' Courage'), [[], [], [], ['Justice is harmony.[2]'], 'Courage'])
+  assert.deepEqual(split('He said "so."[1][2] Then'), [['He said "so."[1][2]'], 'Then'])
+})
+
+test('an ellipsis ends a sentence, and one at the end of the answer is kept', () => {
+  assert.deepEqual(split('He paused… Then spoke.'), [['He paused…'], 'Then spoke.'])
+  assert.deepEqual(split('And so on…'), [[], 'And so on…'])
+  assert.deepEqual(split('Wait... What?'), [['Wait...'], 'What?'])
+})
+
+test('a number followed by a period ends a sentence unless it numbers a list item', () => {
+  assert.deepEqual(split('The answer is 42. Next'), [['The answer is 42.'], 'Next'])
+  assert.deepEqual(split('1. First point. 2. Second point.\n'), [['1. First point.', '2. Second point.'], null])
+  assert.deepEqual(split('Pi is 3.14 or so. Yes'), [['Pi is 3.14 or so.'], 'Yes'])
+})
+
+test('markdown and footnote markers are not read aloud', () => {
+  assert.equal(cleanForSpeech('## **Justice**[1]\n- is _harmony_ in C# and snake_case'), 'Justice is harmony in C# and snake_case')
+})
+
+test('chunks stay under the limit, breaking between sentences first', () => {
+  assert.deepEqual(splitIntoChunks('Short.', 10), ['Short.'])
+  assert.deepEqual(splitIntoChunks('One two. Three four. Five.', 20), ['One two. Three four.', 'Five.'])
+
+  const long = 'A sentence far too long to fit in one chunk. ' + 'x'.repeat(25)
+  const chunks = splitIntoChunks(long, 10)
+  assert.ok(chunks.every(chunk => chunk.length <= 10), JSON.stringify(chunks))
+  assert.equal(chunks.join(' ').replace(/\s+/g, ''), long.replace(/\s+/g, ''))
+})
@@ -0,0 +1,162 @@
+/**
+ * Sentence Splitting for Speech
+ *
+ * Breaks text into sentences so speech can be synthesized piece by piece:
+ * on the client while an answer is still streaming in, and on the server
+ * to keep long inputs under each provider's length limit.
+ * Runs in both environments, so it must not import anything server-only.
+ */
+
+// Words that end with a period without ending the sentence
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'jr', 'sr', 'vs', 'etc', 'e.g', 'i.e',
+  'cf', 'vol', 'ch', 'p', 'pp', 'no', 'ed', 'eds', 'fig', 'approx',
+])
+
+const CLOSING_PUNCTUATION = `"')]”’»`
+
+function endsWithAbbreviation(text: string): boolean {
+  const lastWord = text.split(/\s+/).pop() || ''
+  const word = lastWord.replace(/^[("'“‘«]+/, '')
+  // Initials such as "J. R. R. Tolkien"
+  if (/^[A-Z]$/.test(word)) return true
+  return ABBREVIATIONS.has(word.toLowerCase())
+}
+
+// Letters (in any script with case) and digits
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && (/[0-9]/.test(char) || char.toLowerCase() !== char.toUpperCase())
+}
+
+/**
+ * Strip markdown syntax and footnote markers that would otherwise be read aloud.
+ * Headings, quotes and list bullets are only markers at the start of a line,
+ * and emphasis or code only around words, so "C#" and snake_case survive.
+ */
+export function cleanForSpeech(text: string): string {
+  return text
+    .replace(/^\s*(?:#{1,6}\s+|(?:>\s*)+)/gm, '')
+    .replace(/^\s*(?:[-*+]|\d+\.)\s+/gm, '')
+    .replace(/\[\d+\]/g, '')
+    .replace(/[*_~`]+/g, (run, at: number, all: string) =>
+      isWordChar(all[at - 1]) && isWordChar(all[at + run.length]) ? run : '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Incrementally splits streamed text into complete sentences
+ */
+export class SentenceSplitter {
+  private buffer = ''
+
+  /**
+   * Add more text, returning any sentences it completed
+   */
+  push(text: string): string[] {
+    this.buffer += text
+    const sentences: string[] = []
+    let start = 0
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i]
+      let end = -1
+
+      if (char === '\n') {
+        end = i + 1
+      } else if ('.!?…؟'.includes(char)) {
+        // (؟ is the Arabic question mark)
+        let next = i + 1
+        while (next < this.buffer.length) {
+          if (CLOSING_PUNCTUATION.includes(this.buffer[next])) {
+            next++
+            continue
+          }
+          // Footnote markers like [2] belong to the sentence they follow
+          const footnote = this.buffer.slice(next).match(/^\[\d*\]?/)
+          if (footnote && footnote[0].endsWith(']')) {
+            next += footnote[0].length
+            continue
+          }
+          if (footnote) next = this.buffer.length
+          break
+        }
+        // We can't tell whether the sentence ended until the next character arrives
+        if (next >= this.buffer.length) break
+        if (!/\s/.test(this.buffer[next])) continue
+
+        const sentence = this.buffer.slice(start, i)
+        if (char === '.' && (endsWithAbbreviation(sentence) || /^\s*\d+$/.test(sentence))) continue
+        end = next
+      }
+
+      if (end !== -1) {
+        const sentence = this.buffer.slice(start, end).trim()
+        if (sentence) sentences.push(sentence)
+        start = end
+        i = end - 1
+      }
+    }
+
+    this.buffer = this.buffer.slice(start)
+    return sentences
+  }
+
+  /**
+   * Return whatever text is left once the stream has finished
+   */
+  flush(): string | null {
+    const rest = this.buffer.trim()
+    this.buffer = ''
+    return rest || null
+  }
+}
+
+/**
+ * Split text into chunks no longer than maxLength, breaking between
+ * sentences where possible and between words otherwise
+ */
+export function splitIntoChunks(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) return [text]
+
+  const splitter = new SentenceSplitter()
+  const sentences = splitter.push(text)
+  const rest = splitter.flush()
+  if (rest) sentences.push(rest)
+
+  const chunks: string[] = []
+  let current = ''
+
+  const pushWords = (sentence: string) => {
+    for (const word of sentence.split(/\s+/)) {
+      if (current && current.length + word.length + 1 > maxLength) {
+        chunks.push(current)
+        current = ''
+      }
+      // A single word longer than the limit is cut outright
+      for (let i = 0; i < word.length; i += maxLength) {
+        const piece = word.slice(i, i + maxLength)
+        current = current ? `${current} ${piece}` : piece
+        if (current.length >= maxLength) {
+          chunks.push(current)
+          current = ''
+        }
+      }
+    }
+  }
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length + 1 > maxLength) {
+      chunks.push(current)
+      current = ''
+    }
+    if (sentence.length > maxLength) {
+      pushWords(sentence)
+    } else {
+      current = current ? `${current} ${sentence}` : sentence
+    }
+  }
+
+  if (current) chunks.push(current)
+  return chunks
+}
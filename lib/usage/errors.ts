@@ -0,0 +1,52 @@
+/**
+ * Usage Limit Errors
+ *
+ * Over-limit requests are answered with 429 and a body naming which limit
+ * was hit, so the page can explain it. Shared by the server and the page.
+ */
+
+export type UsageLimitCode =
+  // Too many requests in the last minute
+  | 'rate_limited'
+  // Today's model tokens are used up
+  | 'token_quota_exceeded'
+  // Today's transcription minutes are used up
+  | 'audio_quota_exceeded'
+
+export interface UsageLimitBody {
+  error: string
+  code: UsageLimitCode
+  // Seconds until the request may be tried again
+  retryAfter: number
+}
+
+/**
+ * Check whether a response body describes a usage limit
+ */
+export function isUsageLimitBody(value: unknown): value is UsageLimitBody {
+  const body = value as UsageLimitBody
+  return !!body && typeof body.code === 'string' && typeof body.retryAfter === 'number'
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${Math.max(1, Math.ceil(seconds))} seconds`
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} minutes`
+  const hours = Math.ceil(seconds / 3600)
+  return hours === 1 ? 'an hour' : `${hours} hours`
+}
+
+/**
+ * A friendly explanation of a usage limit, for showing to the user
+ */
+export function describeUsageLimit(body: UsageLimitBody): string {
+  switch (body.code) {
+    case 'rate_limited':
+      return `That's a lot of requests in a short time. Please wait ${formatWait(body.retryAfter)} and try again.`
+    case 'token_quota_exceeded':
+      return `You've reached today's conversation limit. It resets in ${formatWait(body.retryAfter)}.`
+    case 'audio_quota_exceeded':
+      return `You've used today's voice transcription minutes. You can still type, and voice resets in ${formatWait(body.retryAfter)}.`
+    default:
+      return body.error
+  }
+}
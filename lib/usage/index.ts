@@ -0,0 +1,93 @@
+/**
+ * Usage Ledger
+ *
+ * Records what each request cost: model tokens for chat, seconds of audio
+ * for transcription and characters for speech. Every request is appended
+ * to a daily ledger (usage/ledger-YYYY-MM-DD.jsonl) and added to running
+ * per-user totals for the day, which the daily quotas are checked against.
+ * Days are UTC.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { getDataDir, readJsonFile, writeJsonFile, withFileLock } from '@/lib/storage'
+
+export type UsageRoute = 'chat' | 'transcribe' | 'tts'
+
+export interface UsageAmounts {
+  inputTokens?: number
+  outputTokens?: number
+  audioSeconds?: number
+  ttsCharacters?: number
+}
+
+export interface UsageRecord extends UsageAmounts {
+  // ISO timestamp
+  at: string
+  userId: string
+  route: UsageRoute
+}
+
+export interface DailyUsage {
+  requests: number
+  tokens: number
+  audioSeconds: number
+  ttsCharacters: number
+}
+
+const EMPTY_USAGE: DailyUsage = { requests: 0, tokens: 0, audioSeconds: 0, ttsCharacters: 0 }
+
+/**
+ * Today's date in UTC, as YYYY-MM-DD
+ */
+export function getUsageDay(date = new Date()): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Seconds until the current usage day ends
+ */
+export function secondsUntilNextDay(now = new Date()): number {
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+  return Math.ceil((next - now.getTime()) / 1000)
+}
+
+const ledgerPath = (day: string) => getDataDir('usage', `ledger-${day}.jsonl`)
+const totalsPath = (day: string) => getDataDir('usage', `totals-${day}.json`)
+
+/**
+ * Record the cost of one request
+ */
+export async function recordUsage(
+  userId: string,
+  route: UsageRoute,
+  amounts: UsageAmounts
+): Promise<void> {
+  const now = new Date()
+  const day = getUsageDay(now)
+  const record: UsageRecord = { at: now.toISOString(), userId, route, ...amounts }
+
+  const filePath = ledgerPath(day)
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.appendFile(filePath, JSON.stringify(record) + '\n')
+
+  await withFileLock(totalsPath(day), async () => {
+    const totals = await readJsonFile<Record<string, DailyUsage>>(totalsPath(day), {})
+    const usage = totals[userId] || EMPTY_USAGE
+    totals[userId] = {
+      requests: usage.requests + 1,
+      tokens: usage.tokens + (amounts.inputTokens || 0) + (amounts.outputTokens || 0),
+      audioSeconds: usage.audioSeconds + (amounts.audioSeconds || 0),
+      ttsCharacters: usage.ttsCharacters + (amounts.ttsCharacters || 0),
+    }
+    await writeJsonFile(totalsPath(day), totals)
+  })
+}
+
+/**
+ * A user's totals for a day (today by default)
+ */
+export async function getDailyUsage(userId: string, day = getUsageDay()): Promise<DailyUsage> {
+  const totals = await readJsonFile<Record<string, DailyUsage>>(totalsPath(day), {})
+  return totals[userId] || EMPTY_USAGE
+}
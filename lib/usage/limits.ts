@@ -0,0 +1,135 @@
+/**
+ * Rate Limits and Quotas
+ *
+ * Each route allows a number of requests per minute per caller (the user,
+ * or the IP address before sign-in), counted over a sliding window. Counts
+ * are kept in memory, so on serverless hosts every instance counts on its
+ * own. The daily quotas come from the usage ledger, so they only hold across
+ * instances when PHILO_DATA_DIR is storage they all share, and even then
+ * requests landing at the same moment on different instances can each slip
+ * under the limit (file locks only order writes within one process).
+ *
+ * Limits can be changed through the environment:
+ * - RATE_LIMIT_CHAT, RATE_LIMIT_TRANSCRIBE, RATE_LIMIT_TTS, RATE_LIMIT_SIGNIN
+ *   (requests per minute)
+ * - DAILY_TOKEN_LIMIT (model tokens per user per day)
+ * - DAILY_AUDIO_MINUTES (transcribed minutes per user per day)
+ * - TRUSTED_PROXY_HOPS (proxies in front of the app that append to
+ *   X-Forwarded-For; defaults to 1)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getDailyUsage, secondsUntilNextDay } from './index'
+import type { UsageLimitBody } from './errors'
+
+export type RateLimitedRoute = 'chat' | 'transcribe' | 'tts' | 'signin'
+
+const DEFAULT_RATE_LIMITS: Record<RateLimitedRoute, number> = {
+  chat: 10,
+  transcribe: 20,
+  // Answers are spoken one sentence per request
+  tts: 120,
+  signin: 10,
+}
+
+const DEFAULT_DAILY_TOKEN_LIMIT = 500_000
+const DEFAULT_DAILY_AUDIO_MINUTES = 60
+
+const WINDOW_MS = 60_000
+
+// Request times per route and caller, oldest first
+const windows = new Map<string, number[]>()
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+function getRateLimit(route: RateLimitedRoute): number {
+  return numberFromEnv(`RATE_LIMIT_${route.toUpperCase()}`, DEFAULT_RATE_LIMITS[route])
+}
+
+/**
+ * The caller's IP address, as reported by the host. Otherwise it is read from
+ * X-Forwarded-For, counting TRUSTED_PROXY_HOPS entries back from the end:
+ * each proxy appends the address it got the request from, and anything
+ * before the ones our proxies added was written by the client.
+ */
+export function getClientIp(request: NextRequest): string {
+  if (request.ip) return request.ip
+  const hops = Math.floor(numberFromEnv('TRUSTED_PROXY_HOPS', 1))
+  const forwarded = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+  return forwarded[Math.max(forwarded.length - hops, 0)] || 'unknown'
+}
+
+/**
+ * Count a request against the caller's per-minute limit
+ * @param caller - The user id, or an IP address for anonymous routes
+ * @returns Why the request is refused, or null if it may go ahead
+ */
+export function checkRateLimit(route: RateLimitedRoute, caller: string): UsageLimitBody | null {
+  const now = Date.now()
+  const key = `${route}:${caller}`
+  const recent = (windows.get(key) || []).filter(time => now - time < WINDOW_MS)
+  const limit = getRateLimit(route)
+
+  if (recent.length >= limit) {
+    windows.set(key, recent)
+    return {
+      error: 'Too many requests',
+      code: 'rate_limited',
+      retryAfter: Math.ceil((recent[0] + WINDOW_MS - now) / 1000),
+    }
+  }
+
+  recent.push(now)
+  windows.set(key, recent)
+
+  // Forget callers who have gone quiet, so the map doesn't grow forever
+  if (windows.size > 10_000) {
+    windows.forEach((times, k) => {
+      if (now - times[times.length - 1] >= WINDOW_MS) windows.delete(k)
+    })
+  }
+  return null
+}
+
+/**
+ * Check a user's daily quota for a route
+ * @returns Why the request is refused, or null if there is quota left
+ */
+export async function checkQuota(route: 'chat' | 'transcribe', userId: string): Promise<UsageLimitBody | null> {
+  const usage = await getDailyUsage(userId)
+
+  if (route === 'chat' && usage.tokens >= numberFromEnv('DAILY_TOKEN_LIMIT', DEFAULT_DAILY_TOKEN_LIMIT)) {
+    return {
+      error: 'Daily token limit reached',
+      code: 'token_quota_exceeded',
+      retryAfter: secondsUntilNextDay(),
+    }
+  }
+
+  const audioLimit = numberFromEnv('DAILY_AUDIO_MINUTES', DEFAULT_DAILY_AUDIO_MINUTES) * 60
+  if (route === 'transcribe' && usage.audioSeconds >= audioLimit) {
+    return {
+      error: 'Daily transcription limit reached',
+      code: 'audio_quota_exceeded',
+      retryAfter: secondsUntilNextDay(),
+    }
+  }
+
+  return null
+}
+
+/**
+ * The 429 response for a refused request
+ */
+export function limitExceeded(body: UsageLimitBody): NextResponse {
+  return NextResponse.json(body, {
+    status: 429,
+    headers: { 'Retry-After': String(body.retryAfter) },
+  })
+}
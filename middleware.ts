@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdmin } from '@/lib/auth/admins'
+import { getSession } from '@/lib/auth/session'
+
+// Everything that costs money or holds someone's chats needs a session.
+// Sign-in itself (/signin, /api/auth/*) and static files stay public.
+// The library screen is for admins; the library API checks for itself.
+export async function middleware(request: NextRequest) {
+  const session = await getSession(request)
+  if (session) {
+    if (request.nextUrl.pathname.startsWith('/admin') && !isAdmin(session.userId)) {
+      return NextResponse.redirect(new URL('/', request.url))
+    }
+    return NextResponse.next()
+  }
+
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { error: 'Sign in to continue' },
+      { status: 401 }
+    )
+  }
+
+  const signInUrl = new URL('/signin', request.url)
+  signInUrl.searchParams.set('next', request.nextUrl.pathname)
+  return NextResponse.redirect(signInUrl)
+}
+
+export const config = {
+  matcher: ['/', '/admin/:path*', '/api/((?!auth/).*)'],
+}